@@ -1,17 +1,24 @@
 
 import React, { useState, useEffect } from 'react';
 import GameCanvas from './components/GameCanvas';
-import { Team, GameMode, WeaponType, GameSetup, Difficulty, ControlScheme, GameSettings, Player, MatchRecord, MapId, Orientation, FireMode } from './types';
+import { Team, GameMode, WeaponType, GameSetup, Difficulty, ControlScheme, GameSettings, Player, MatchRecord, MapId, Orientation, FireMode, ReplayRecording, DifficultyAdjustment } from './types';
 import { WEAPONS, OPERATORS, MAP_INFO } from './constants';
 import { soundManager } from './services/soundManager';
+import { randomSeed } from './services/random';
+import { getDisplayName } from './services/botIdentity';
+import { DEFAULT_RESPAWN_DELAYS } from './services/respawn';
 
 // Persistence Keys
 const STORAGE_KEYS = {
     SETTINGS: 'tactical_ops_settings_v1',
     HISTORY: 'tactical_ops_history_v1',
-    LOADOUT: 'tactical_ops_loadout_v1'
+    LOADOUT: 'tactical_ops_loadout_v1',
+    REPLAYS: 'tactical_ops_replays_v1'
 };
 
+// Replays are large (one input frame per change), so only the most recent few are kept
+const MAX_SAVED_REPLAYS = 5;
+
 // Helper to load state safely
 const loadState = <T,>(key: string, fallback: T): T => {
     if (typeof window === 'undefined') return fallback;
@@ -24,6 +31,9 @@ const loadState = <T,>(key: string, fallback: T): T => {
     }
 };
 
+// Adaptive difficulty levels run -1 (recruit) to 1 (elite); name the nearest one
+const describeBotLevel = (level: number) => level <= -0.5 ? 'RECRUIT' : level >= 0.5 ? 'ELITE' : 'VETERAN';
+
 const App: React.FC = () => {
   const [inGame, setInGame] = useState(false);
   const [winner, setWinner] = useState<Team | null>(null);
@@ -32,6 +42,10 @@ const App: React.FC = () => {
   // Persistent Match History
   const [matchHistory, setMatchHistory] = useState<MatchRecord[]>(() => loadState(STORAGE_KEYS.HISTORY, []));
 
+  // Saved Replays
+  const [replays, setReplays] = useState<ReplayRecording[]>(() => loadState(STORAGE_KEYS.REPLAYS, []));
+  const [activeReplay, setActiveReplay] = useState<ReplayRecording | null>(null);
+
   // Persistent Customization State
   const savedLoadout = loadState(STORAGE_KEYS.LOADOUT, {
       mode: GameMode.DOMINATION,
@@ -44,8 +58,10 @@ const App: React.FC = () => {
   const [selectedWeapon, setSelectedWeapon] = useState<WeaponType>(savedLoadout.weapon);
   const [selectedOperatorId, setSelectedOperatorId] = useState<string>(savedLoadout.operatorId);
   const [selectedMapId, setSelectedMapId] = useState<MapId>(savedLoadout.mapId);
+  // Rolled once per deployment so the whole match can be reproduced from it
+  const [matchSeed, setMatchSeed] = useState<number>(randomSeed);
   
-  const [activeTab, setActiveTab] = useState<'PLAY' | 'LOADOUT' | 'OPERATORS' | 'CAREER' | 'SETTINGS'>('PLAY');
+  const [activeTab, setActiveTab] = useState<'PLAY' | 'LOADOUT' | 'OPERATORS' | 'CAREER' | 'REPLAYS' | 'SETTINGS'>('PLAY');
 
   // Persistent Settings State
   const [settings, setSettings] = useState<GameSettings>(() => {
@@ -58,7 +74,10 @@ const App: React.FC = () => {
           enemyCount: 5,
           botCount: 29,
           orientation: Orientation.DEFAULT,
-          fireMode: FireMode.MANUAL
+          fireMode: FireMode.MANUAL,
+          adaptiveDifficulty: false,
+          waveRespawns: false,
+          respawnDelays: { ...DEFAULT_RESPAWN_DELAYS }
       };
       if (!saved) return defaults;
       // Merge in case saved data is missing new fields
@@ -74,6 +93,18 @@ const App: React.FC = () => {
       localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
   }, [settings]);
 
+  useEffect(() => {
+      // Drop the oldest recordings until the rest fit in storage
+      for (let count = replays.length; count >= 0; count--) {
+          try {
+              localStorage.setItem(STORAGE_KEYS.REPLAYS, JSON.stringify(replays.slice(0, count)));
+              return;
+          } catch (e) {
+              console.warn(`Replay storage full, keeping ${count - 1} replays`, e);
+          }
+      }
+  }, [replays]);
+
   // --- ORIENTATION EFFECT ---
   useEffect(() => {
     const applyOrientation = async () => {
@@ -112,7 +143,7 @@ const App: React.FC = () => {
   }, [settings.volume]);
 
   useEffect(() => {
-    if (inGame) {
+    if (inGame || activeReplay) {
         soundManager.stopMusic();
     } else if (postMatchData) {
         if (postMatchData.winner === Team.ALLIED) {
@@ -124,7 +155,7 @@ const App: React.FC = () => {
         // Main Menu - Silence
         soundManager.stopMusic();
     }
-  }, [inGame, postMatchData]);
+  }, [inGame, activeReplay, postMatchData]);
 
   // UI Sound Helpers
   const playClick = () => soundManager.play('UI_CLICK');
@@ -132,14 +163,16 @@ const App: React.FC = () => {
 
   const startGame = () => {
     playClick();
+    setMatchSeed(randomSeed());
     setInGame(true);
     setWinner(null);
     setPostMatchData(null);
   };
 
-  const handleGameOver = (winningTeam: Team, scores: Record<Team, number>, players: Player[]) => {
+  const handleGameOver = (winningTeam: Team, scores: Record<Team, number>, players: Player[], replay: ReplayRecording, difficultyLog?: DifficultyAdjustment[]) => {
     setInGame(false);
     setPostMatchData({ winner: winningTeam, scores, players });
+    setReplays(prev => [replay, ...prev].slice(0, MAX_SAVED_REPLAYS));
     
     // Add to History
     const human = players.find(p => p.id === 'player');
@@ -154,7 +187,10 @@ const App: React.FC = () => {
         playerKills: human ? human.kills : 0,
         playerDeaths: human ? human.deaths : 0,
         playerOperator: selectedOperatorId,
-        difficulty: settings.difficulty
+        difficulty: settings.difficulty,
+        seed: matchSeed,
+        difficultyLog,
+        placement: selectedMode === GameMode.BATTLE_ROYALE && human ? (human.placement ?? 1) : undefined
     };
     setMatchHistory(prev => [newRecord, ...prev]);
   };
@@ -166,11 +202,27 @@ const App: React.FC = () => {
       setActiveTab('PLAY');
   };
 
+  const watchReplay = (replay: ReplayRecording) => {
+      playClick();
+      setActiveReplay(replay);
+  };
+
+  const closeReplay = () => {
+      playClick();
+      setActiveReplay(null);
+  };
+
+  const deleteReplay = (id: string) => {
+      playClick();
+      setReplays(prev => prev.filter(r => r.id !== id));
+  };
+
   const getGameSetup = (): GameSetup => ({
       mode: selectedMode,
       weapon: selectedWeapon,
       operatorId: selectedOperatorId,
-      mapId: selectedMapId
+      mapId: selectedMapId,
+      seed: matchSeed
   });
 
   const handleClearData = () => {
@@ -179,6 +231,7 @@ const App: React.FC = () => {
           localStorage.removeItem(STORAGE_KEYS.HISTORY);
           localStorage.removeItem(STORAGE_KEYS.SETTINGS);
           localStorage.removeItem(STORAGE_KEYS.LOADOUT);
+          localStorage.removeItem(STORAGE_KEYS.REPLAYS);
           window.location.reload();
       }
   };
@@ -212,6 +265,8 @@ const App: React.FC = () => {
         ? postMatchData.players.filter(p => p.id === 'player') 
         : postMatchData.players.filter(p => p.team === Team.ALLIED)
   ) : [];
+  // Everyone who was shooting at the human: the other team, or every bot in solo modes
+  const hostilePlayers = postMatchData ? postMatchData.players.filter(p => isSoloMode ? p.isBot : p.team === Team.AXIS) : [];
 
   return (
     <div className="w-full h-screen bg-neutral-900 flex items-center justify-center overflow-hidden font-sans select-none">
@@ -236,6 +291,9 @@ const App: React.FC = () => {
                         {isSoloMode && (
                             <div className="text-sm md:text-2xl text-white font-mono mt-1 md:mt-4 tracking-widest bg-black/50 inline-block px-4 py-1 rounded">
                                  MISSION {postMatchData.winner === Team.ALLIED ? 'ACCOMPLISHED' : 'FAILED'}
+                                 {selectedMode === GameMode.BATTLE_ROYALE && (
+                                     <span className="text-yellow-400"> | PLACED #{postMatchData.players.find(p => p.id === 'player')?.placement ?? 1} OF {postMatchData.players.length}</span>
+                                 )}
                             </div>
                         )}
                     </div>
@@ -259,7 +317,29 @@ const App: React.FC = () => {
                                 <div key={p.id} className={`grid grid-cols-4 gap-2 md:gap-4 text-left items-center p-2 md:p-3 rounded ${p.id === 'player' ? 'bg-blue-900/30 border border-blue-500/30' : 'bg-white/5'}`}>
                                     <div className="font-bold text-white flex items-center gap-2 truncate">
                                         <div className={`w-2 h-2 shrink-0 rounded-full ${p.active ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                                        <span className="truncate text-xs md:text-base">{p.id === 'player' ? 'YOU' : p.id.toUpperCase()}</span>
+                                        <div className="truncate">
+                                            <div className="truncate text-xs md:text-base">{getDisplayName(p)}</div>
+                                            <div className="truncate text-[10px] text-gray-500 font-normal">{OPERATORS.find(o => o.id === p.operatorId)?.name} | {WEAPONS[p.weapon].name}</div>
+                                        </div>
+                                    </div>
+                                    <div className="text-[10px] md:text-xs text-gray-400">{p.active ? 'ACTIVE' : 'KIA'}</div>
+                                    <div className="text-white font-mono text-sm">{p.kills}</div>
+                                    <div className="text-gray-400 font-mono text-sm">{p.deaths}</div>
+                                </div>
+                            ))}
+
+                            {/* HOSTILE SCOREBOARD */}
+                            <div className="text-left text-red-400 font-bold text-xs md:text-sm tracking-widest border-b border-white/10 pt-4 pb-1">HOSTILE FORCES</div>
+                            {hostilePlayers
+                                .sort((a,b) => b.kills - a.kills)
+                                .map(p => (
+                                <div key={p.id} className="grid grid-cols-4 gap-2 md:gap-4 text-left items-center p-2 md:p-3 rounded bg-red-950/20">
+                                    <div className="font-bold text-gray-200 flex items-center gap-2 truncate">
+                                        <div className={`w-2 h-2 shrink-0 rounded-full ${p.active ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                                        <div className="truncate">
+                                            <div className="truncate text-xs md:text-base">{getDisplayName(p)}</div>
+                                            <div className="truncate text-[10px] text-gray-500 font-normal">{OPERATORS.find(o => o.id === p.operatorId)?.name} | {WEAPONS[p.weapon].name}</div>
+                                        </div>
                                     </div>
                                     <div className="text-[10px] md:text-xs text-gray-400">{p.active ? 'ACTIVE' : 'KIA'}</div>
                                     <div className="text-white font-mono text-sm">{p.kills}</div>
@@ -289,6 +369,8 @@ const App: React.FC = () => {
                     </div>
                </div>
           </div>
+      ) : activeReplay ? (
+        <GameCanvas onGameOver={closeReplay} gameSetup={activeReplay.setup} settings={settings} replay={activeReplay} onExitReplay={closeReplay} />
       ) : !inGame ? (
         <div className="w-full h-full flex flex-col bg-[url('https://images.unsplash.com/photo-1542259681-d4cd7193bc70?q=80&w=2669&auto=format&fit=crop')] bg-cover bg-center relative overflow-y-auto">
           
@@ -302,7 +384,7 @@ const App: React.FC = () => {
                 <h2 className="text-sm md:text-xl text-blue-400 font-mono tracking-widest">URBAN ASSAULT</h2>
              </div>
              <div className="flex flex-wrap justify-center gap-2 md:gap-4">
-                 {['PLAY', 'LOADOUT', 'OPERATORS', 'CAREER', 'SETTINGS'].map(tab => (
+                 {['PLAY', 'LOADOUT', 'OPERATORS', 'CAREER', 'REPLAYS', 'SETTINGS'].map(tab => (
                      <button 
                         key={tab}
                         onClick={() => { playClick(); setActiveTab(tab as any); }}
@@ -502,10 +584,16 @@ const App: React.FC = () => {
                                                 {match.winner === Team.ALLIED ? 'VICTORY' : 'DEFEAT'}
                                             </div>
                                             <div className="text-gray-400">{MAP_INFO[match.mapId].name} | {match.mode}</div>
+                                            {match.seed !== undefined && <div className="text-gray-600 font-mono text-[10px]">SEED {match.seed}</div>}
+                                            {match.difficultyLog && match.difficultyLog.length > 0 && (
+                                                <div className="text-orange-400/80 font-mono text-[10px]">
+                                                    ADAPTIVE {match.difficultyLog.length}x, ENDED {describeBotLevel(match.difficultyLog[match.difficultyLog.length - 1].level)}
+                                                </div>
+                                            )}
                                         </div>
                                         <div className="text-right">
                                             <div className="font-mono text-white">
-                                                {match.scoreAllied} - {match.scoreAxis}
+                                                {match.placement !== undefined ? `#${match.placement}` : `${match.scoreAllied} - ${match.scoreAxis}`}
                                             </div>
                                             <div className="text-gray-500">
                                                 K: {match.playerKills} / D: {match.playerDeaths}
@@ -518,6 +606,49 @@ const App: React.FC = () => {
                     </div>
                 )}
 
+                {activeTab === 'REPLAYS' && (
+                    <div className="space-y-6">
+                        <h3 className="text-xl md:text-2xl text-white font-bold border-b border-white/20 pb-2">REPLAYS</h3>
+                        <p className="text-xs text-gray-500">The last {MAX_SAVED_REPLAYS} matches are recorded automatically. Space pauses playback, M toggles the tactical map.</p>
+                        <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2">
+                            {replays.length === 0 ? (
+                                <div className="text-center text-gray-500 py-8">No recordings yet. Finish a match to record one.</div>
+                            ) : (
+                                replays.map((replay) => (
+                                    <div key={replay.id} className="bg-white/5 p-3 rounded flex justify-between items-center gap-4 text-xs md:text-sm border-l-4"
+                                         style={{borderColor: replay.winner === Team.ALLIED ? '#3b82f6' : '#ef4444'}}>
+                                        <div>
+                                            <div className={`font-bold ${replay.winner === Team.ALLIED ? 'text-blue-400' : 'text-red-400'}`}>
+                                                {replay.winner === Team.ALLIED ? 'VICTORY' : 'DEFEAT'}
+                                            </div>
+                                            <div className="text-gray-400">{MAP_INFO[replay.setup.mapId].name} | {replay.setup.mode}</div>
+                                            <div className="text-gray-600 font-mono text-[10px]">
+                                                {new Date(replay.timestamp).toLocaleString()} | {Math.round(replay.tickCount * replay.tickMs / 1000)}s
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => watchReplay(replay)}
+                                                onMouseEnter={playHover}
+                                                className="px-4 py-2 bg-yellow-500 text-black font-bold rounded hover:bg-yellow-400"
+                                            >
+                                                WATCH
+                                            </button>
+                                            <button
+                                                onClick={() => deleteReplay(replay.id)}
+                                                onMouseEnter={playHover}
+                                                className="px-3 py-2 border border-red-500 text-red-500 font-bold rounded hover:bg-red-500 hover:text-black"
+                                            >
+                                                DELETE
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {activeTab === 'SETTINGS' && (
                     <div className="space-y-6">
                         <h3 className="text-xl md:text-2xl text-white font-bold border-b border-white/20 pb-2">GAME SETTINGS</h3>
@@ -535,7 +666,8 @@ const App: React.FC = () => {
                                    <p><strong className="text-white">GUN GAME:</strong> Free-For-All. Eliminate enemies to upgrade your weapon. First to complete all weapons wins.</p>
                                    <p><strong className="text-white">TEAM DEATHMATCH:</strong> Eliminate enemy operators. Each kill grants 10 points. First team to 100 points (10 kills) wins.</p>
                                    <p><strong className="text-white">FREE FOR ALL:</strong> No teams. If it moves, shoot it. Survive and eliminate.</p>
-                                   <p><strong className="text-white">BATTLE ROYALE:</strong> Survival of the fittest. Scavenge for weapons, stay in the safe zone, and be the last operator standing.</p>
+                                   <p><strong className="text-white">PICKUPS:</strong> In Deathmatch, Free-For-All and Domination, pads around the map hand out ammo, health, armor and timed power-ups. Walk over one to take it; it restocks after a while.</p>
+                                   <p><strong className="text-white">BATTLE ROYALE:</strong> Survival of the fittest. Pick a landing spot from the drop plane, scavenge for weapons (rarer is stronger) to fill two slots, stay in the safe zone, and be the last operator standing.</p>
                                </div>
                                
                                <div className="border-t border-white/10 pt-2">
@@ -547,6 +679,9 @@ const App: React.FC = () => {
                                        <span><span className="text-yellow-500 font-mono">R</span> : Reload</span>
                                        <span><span className="text-yellow-500 font-mono">SHIFT</span> : Sprint</span>
                                        <span><span className="text-yellow-500 font-mono">M</span> : Toggle Map</span>
+                                       <span><span className="text-yellow-500 font-mono">E</span> : Swap Loot (BR)</span>
+                                       <span><span className="text-yellow-500 font-mono">1-3 / X</span> : Weapons</span>
+                                       <span><span className="text-yellow-500 font-mono">H / B</span> : Medkit / Plate (BR)</span>
                                    </div>
                                </div>
 
@@ -675,6 +810,70 @@ const App: React.FC = () => {
                                     ELITE
                                 </button>
                             </div>
+                            <div className="flex flex-col md:flex-row gap-4 mt-4">
+                                <button 
+                                    onClick={() => { playClick(); setSettings(s => ({...s, adaptiveDifficulty: false})); }}
+                                    onMouseEnter={playHover}
+                                    className={`flex-1 py-3 font-bold rounded text-sm md:text-base ${!settings.adaptiveDifficulty ? 'bg-orange-600 text-white' : 'bg-black/30 text-gray-500'}`}
+                                >
+                                    FIXED
+                                </button>
+                                <button 
+                                    onClick={() => { playClick(); setSettings(s => ({...s, adaptiveDifficulty: true})); }}
+                                    onMouseEnter={playHover}
+                                    className={`flex-1 py-3 font-bold rounded text-sm md:text-base ${settings.adaptiveDifficulty ? 'bg-orange-600 text-white' : 'bg-black/30 text-gray-500'}`}
+                                >
+                                    ADAPTIVE
+                                </button>
+                            </div>
+                            <p className="text-[10px] text-gray-500 mt-2">
+                                {settings.adaptiveDifficulty ? 'Bots start at the chosen difficulty and get sharper or softer as the match goes, based on your K/D, accuracy and the score.' : 'Bots stay at the chosen difficulty for the whole match.'}
+                            </p>
+                        </div>
+
+                        {/* RESPAWNS */}
+                        <div className="bg-white/5 p-4 rounded">
+                            <label className="block text-gray-400 mb-2 uppercase tracking-wide text-sm">Respawns</label>
+                            <div className="flex flex-col md:flex-row gap-4">
+                                <button 
+                                    onClick={() => { playClick(); setSettings(s => ({...s, waveRespawns: false})); }}
+                                    onMouseEnter={playHover}
+                                    className={`flex-1 py-3 font-bold rounded text-sm md:text-base ${!settings.waveRespawns ? 'bg-orange-600 text-white' : 'bg-black/30 text-gray-500'}`}
+                                >
+                                    INDIVIDUAL
+                                </button>
+                                <button 
+                                    onClick={() => { playClick(); setSettings(s => ({...s, waveRespawns: true})); }}
+                                    onMouseEnter={playHover}
+                                    className={`flex-1 py-3 font-bold rounded text-sm md:text-base ${settings.waveRespawns ? 'bg-orange-600 text-white' : 'bg-black/30 text-gray-500'}`}
+                                >
+                                    WAVES
+                                </button>
+                            </div>
+                            <p className="text-[10px] text-gray-500 mt-2">
+                                {settings.waveRespawns ? 'Domination and Hardpoint: the fallen redeploy together every 10 seconds.' : 'Everyone redeploys on their own timer after a short delay.'}
+                            </p>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                                {(Object.keys(DEFAULT_RESPAWN_DELAYS) as GameMode[]).map(mode => {
+                                    const delay = settings.respawnDelays?.[mode] ?? DEFAULT_RESPAWN_DELAYS[mode]!;
+                                    return (
+                                        <div key={mode}>
+                                            <div className="flex justify-between mb-2">
+                                                <label className="text-gray-400 uppercase tracking-wide text-xs font-bold">{mode.replace('_', ' ')} Delay</label>
+                                                <span className="text-orange-400 font-mono font-bold">{(delay / 1000).toFixed(1)}s</span>
+                                            </div>
+                                            <input 
+                                                type="range" 
+                                                min="0" max="10000" step="500"
+                                                value={delay} 
+                                                onChange={(e) => setSettings(s => ({...s, respawnDelays: { ...s.respawnDelays, [mode]: parseInt(e.target.value) }}))}
+                                                onMouseUp={playClick}
+                                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
                         </div>
 
                         {/* BOT COUNT CONFIGURATION */}
@@ -1,16 +1,45 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { CANVAS_WIDTH, CANVAS_HEIGHT, WEAPONS, TEAM_COLORS, WORLD_WIDTH, WORLD_HEIGHT, OPERATORS } from '../constants';
-import { createInitialState, updateGame } from '../services/engine';
-import { GameState, Team, Player, Building, ControlPoint, GameSetup, GameSettings, ControlScheme, GameMode } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, WEAPONS, TEAM_COLORS, WORLD_WIDTH, WORLD_HEIGHT, OPERATORS, TICK_RATE, RARITY_TIERS, CONSUMABLES, MAX_ARMOR, PICKUPS } from '../constants';
+import { createInitialState, updateGame, getMatchOutcome } from '../services/engine';
+import { soundManager } from '../services/soundManager';
+import { createReplayRecorder, getReplayInput } from '../services/replay';
+import { getRespawnTicket, isSpawnProtected } from '../services/respawn';
+import { createKillcamBuffer, getKillcamFrame, buildDeathRecap, Killcam, DamageEvent, DeathRecapEntry, KILLCAM_MS, RECAP_MS } from '../services/killcam';
+import { getDisplayName } from '../services/botIdentity';
+import { findLootInReach } from '../services/inventory';
+import { getPlanePos } from '../services/deployment';
+import { SUPPLY_DROP_FALL_MS } from '../services/supplyDrop';
+import { hasBoost } from '../services/pickups';
+import { getReserve } from '../services/ammo';
+import { GameState, Team, Player, WeaponType, Building, ControlPoint, GameSetup, GameSettings, ControlScheme, GameMode, Vector2, PlayerInput, ReplayRecording, SquadCommand, SquadOrder, DifficultyAdjustment, Zone, Deployment, SupplyDrop, ConsumableType, PickupPad, BoostType } from '../types';
+
+// Fixed simulation step. Rendering runs at whatever rate the display gives us
+// and interpolates between the last two simulated states.
+const TICK_MS = 1000 / TICK_RATE;
+// Cap on real time simulated per frame so a stalled tab doesn't try to catch up for seconds
+const MAX_FRAME_MS = 250;
+// Replay scrubbing restores the nearest saved state and re-simulates from there
+const REPLAY_CHECKPOINT_TICKS = 600;
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+const FREE_CAM_SPEED = 0.8; // px per ms
+
+const ORDER_LABELS: Record<SquadOrder['type'], string> = {
+  FOLLOW: 'FOLLOW ME',
+  HOLD: 'HOLD POSITION',
+  ATTACK: 'ATTACK',
+  REGROUP: 'REGROUP'
+};
 
 interface GameCanvasProps {
-  onGameOver: (winner: Team, scores: { [key in Team]: number }, players: Player[]) => void;
+  onGameOver: (winner: Team, scores: { [key in Team]: number }, players: Player[], replay: ReplayRecording, difficultyLog?: DifficultyAdjustment[]) => void;
   gameSetup: GameSetup;
   settings: GameSettings;
+  replay?: ReplayRecording; // Plays this recording back instead of taking live input
+  onExitReplay?: () => void;
 }
 
-const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings }) => {
+const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings, replay, onExitReplay }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const crosshairRef = useRef<HTMLDivElement>(null);
   
@@ -19,13 +48,36 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
   // State to force re-render when dimensions change
   const [, setTick] = useState(0);
 
-  const stateRef = useRef<GameState>(createInitialState(gameSetup, settings));
-  const inputRef = useRef({
+  // Replays re-run the engine with the settings they were recorded under
+  const simSettings = replay ? replay.settings : settings;
+  const stateRef = useRef<GameState>(createInitialState(gameSetup, simSettings));
+  const inputRef = useRef<PlayerInput>({
     keys: {} as Record<string, boolean>,
     mouse: { x: window.innerWidth / 2, y: window.innerHeight / 2 },
     mouseDown: false
   });
   const gameOverTriggered = useRef(false);
+  const recorderRef = useRef(createReplayRecorder(gameSetup, simSettings, TICK_MS));
+  // Killcam: rolling snapshots, the damage taken this life, and the playback after a death
+  const killcamBuffer = useRef(createKillcamBuffer());
+  const damageTaken = useRef<DamageEvent[]>([]);
+  const killcamRef = useRef<Killcam | null>(null);
+  const [deathRecap, setDeathRecap] = useState<DeathRecapEntry[]>([]);
+  // Battle Royale: once the human is out, follow a living player or fly free over the map
+  const spectateRef = useRef({ targetId: null as string | null, freeCam: false, freeCamPos: { x: 0, y: 0 } });
+
+  // Replay Playback State (mutated by the controls, read by the loop)
+  const replayControl = useRef({
+      tick: 0,
+      paused: false,
+      speed: 1,
+      freeCam: false,
+      freeCamPos: { x: 0, y: 0 },
+      seekTo: null as number | null,
+      input: null as PlayerInput | null,
+      checkpoints: new Map<number, GameState>()
+  });
+  const [replayHud, setReplayHud] = useState({ tick: 0, paused: false, speed: 1, freeCam: false });
   
   // Mobile Aiming State
   const [aimStick, setAimStick] = useState<{startX: number, startY: number, curX: number, curY: number} | null>(null);
@@ -33,13 +85,37 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
   
   // HUD State
   const [hudState, setHudState] = useState<{
-      ammo: number, health: number, scoreA: number, scoreB: number, 
+      ammo: number, reserve: number | null, health: number, scoreA: number, scoreB: number, 
       time: number, feed: string[], shooting: boolean, lastShot: number,
-      aliveCount?: number, kills: number, deaths: number
+      aliveCount?: number, kills: number, deaths: number, order: string | null,
+      respawnIn: number | null, respawnWave: boolean,
+      killcam: string | null, showRecap: boolean,
+      weapon: WeaponType, spectating: string | null,
+      inventory: InventoryHud[] | null, lootPrompt: string | null,
+      deploy: { picking: boolean, label: string } | null,
+      armor: number, items: Record<ConsumableType, number> | null,
+      using: { name: string, progress: number } | null,
+      boosts: { label: string, color: string, secs: number }[]
   } | null>(null);
 
   const [showFullMap, setShowFullMap] = useState(false);
 
+  // Squad Command State. Orders wait here until the next tick picks them up, so replays record them.
+  const canCommand = !replay && gameSetup.mode !== GameMode.FFA && gameSetup.mode !== GameMode.GUN_GAME && gameSetup.mode !== GameMode.BATTLE_ROYALE;
+  const pendingCommand = useRef<SquadCommand | null>(null);
+  const [showCommandWheel, setShowCommandWheel] = useState(false);
+  const commandWheelOpen = useRef(false);
+  const toggleCommandWheel = (open: boolean) => {
+      commandWheelOpen.current = open;
+      setShowCommandWheel(open);
+  };
+  // BR landing pick, handed to the engine on the next tick like a squad order
+  const pendingLanding = useRef<Vector2 | null>(null);
+  const issueCommand = (command: SquadCommand) => {
+      pendingCommand.current = command;
+      toggleCommandWheel(false);
+  };
+
   // Resize Listener
   useEffect(() => {
     const handleResize = () => {
@@ -60,22 +136,97 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
     if (!ctx) return;
 
     let animationFrameId: number;
+    let lastFrameTime = performance.now();
+    let accumulator = 0;
+    let prevPositions = new Map<string, Vector2>();
+    let prevCamera = { ...stateRef.current.camera };
+    // Old recordings keep the tick length they were made with
+    const tickMs = replay ? replay.tickMs : TICK_MS;
 
-    const handleKeyDown = (e: KeyboardEvent) => { 
-        inputRef.current.keys[e.key] = true; 
+    const handleKeyDown = (e: KeyboardEvent) => {
+        // While the wheel is open, number keys pick orders and must not reach the weapon slots
+        if (!(commandWheelOpen.current && /^[1-9]$/.test(e.key))) inputRef.current.keys[e.key] = true;
         if (e.key.toLowerCase() === 'm') setShowFullMap(prev => !prev);
+        if (isSpectating()) {
+            if (e.key === 'ArrowRight' || e.key.toLowerCase() === 'e') cycleSpectate(1);
+            else if (e.key === 'ArrowLeft' || e.key.toLowerCase() === 'q') cycleSpectate(-1);
+            else if (e.key.toLowerCase() === 'f') toggleSpectateFreeCam();
+        }
+        if (replay && e.key === ' ') replayControl.current.paused = !replayControl.current.paused;
+        if (canCommand) {
+            if (e.key.toLowerCase() === 'q') toggleCommandWheel(!commandWheelOpen.current);
+            else if (e.key === 'Escape') toggleCommandWheel(false);
+            else if (commandWheelOpen.current && /^[1-9]$/.test(e.key)) {
+                const option = getCommandOptions(stateRef.current)[parseInt(e.key) - 1];
+                if (option) issueCommand(option.command);
+            }
+        }
     };
     const handleKeyUp = (e: KeyboardEvent) => { inputRef.current.keys[e.key] = false; };
     const handleMouseMove = (e: MouseEvent) => {
       const rect = canvas.getBoundingClientRect();
+      // Dragging pans the free camera during replays
+      if (replay && replayControl.current.freeCam && inputRef.current.mouseDown) {
+          replayControl.current.freeCamPos.x -= e.clientX - rect.left - inputRef.current.mouse.x;
+          replayControl.current.freeCamPos.y -= e.clientY - rect.top - inputRef.current.mouse.y;
+      }
       inputRef.current.mouse.x = e.clientX - rect.left;
       inputRef.current.mouse.y = e.clientY - rect.top;
     };
-    const handleMouseDown = () => { inputRef.current.mouseDown = true; };
+    const handleMouseDown = () => {
+        // Clicks on the command wheel or tactical map give orders instead of firing
+        if (commandWheelOpen.current || (canCommand && showFullMap)) return;
+        inputRef.current.mouseDown = true;
+    };
     const handleMouseUp = () => { inputRef.current.mouseDown = false; };
 
-    // PC Listeners
-    if (settings.controls === ControlScheme.PC) {
+    // One engine tick. Replays and seeking pass in recorded input; seeking stays silent.
+    const runTick = (input: PlayerInput, viewW: number, viewH: number, playAudio: boolean) => {
+        stateRef.current = updateGame(stateRef.current, input, tickMs, simSettings, viewW, viewH);
+        if (playAudio) {
+            stateRef.current.events.forEach(e => {
+                if (e.type === 'SOUND') soundManager.play(e.key);
+            });
+        }
+    };
+
+    // Feeds the killcam buffer and starts playback when the human goes down
+    const watchForDeath = (state: GameState) => {
+        killcamBuffer.current.capture(state);
+        state.events.forEach(e => {
+            if (e.type === 'DAMAGE' && e.victimId === 'player') damageTaken.current.push(e);
+            if (e.type === 'KILL' && e.victimId === 'player') {
+                killcamRef.current = killcamBuffer.current.freeze(e.killerId, state.time);
+                setDeathRecap(buildDeathRecap(damageTaken.current, e.killerId, state.players));
+                damageTaken.current = [];
+            }
+        });
+    };
+
+    const stepReplay = (recording: ReplayRecording, playAudio: boolean) => {
+        const rc = replayControl.current;
+        if (rc.tick % REPLAY_CHECKPOINT_TICKS === 0 && !rc.checkpoints.has(rc.tick)) {
+            rc.checkpoints.set(rc.tick, structuredClone(stateRef.current));
+        }
+        const frame = getReplayInput(recording, rc.tick);
+        rc.input = frame.input;
+        runTick(frame.input, frame.viewW, frame.viewH, playAudio);
+        rc.tick++;
+    };
+
+    const seekReplay = (recording: ReplayRecording, target: number) => {
+        const rc = replayControl.current;
+        if (target < rc.tick) {
+            // Checkpoints exist for every multiple we've already simulated past
+            const base = Math.floor(target / REPLAY_CHECKPOINT_TICKS) * REPLAY_CHECKPOINT_TICKS;
+            stateRef.current = structuredClone(rc.checkpoints.get(base)!);
+            rc.tick = base;
+        }
+        while (rc.tick < target) stepReplay(recording, false);
+    };
+
+    // PC Listeners (replays always take keyboard + mouse for the viewer controls)
+    if (settings.controls === ControlScheme.PC || replay) {
         window.addEventListener('keydown', handleKeyDown);
         window.addEventListener('keyup', handleKeyUp);
         window.addEventListener('mousemove', handleMouseMove);
@@ -85,68 +236,171 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
         window.addEventListener('mousemove', handleMouseMove);
     }
 
-    const render = () => {
+    const render = (frameTime: number = performance.now()) => {
       const viewW = dims.current.w;
       const viewH = dims.current.h;
 
-      // 1. UPDATE with current dimensions
-      stateRef.current = updateGame(stateRef.current, inputRef.current, 16, settings, viewW, viewH);
+      // 1. UPDATE in fixed ticks with current dimensions
+      const frameDelta = Math.min(MAX_FRAME_MS, Math.max(0, frameTime - lastFrameTime));
+      lastFrameTime = frameTime;
+      if (replay) {
+          const rc = replayControl.current;
+          if (rc.seekTo !== null) {
+              seekReplay(replay, rc.seekTo);
+              rc.seekTo = null;
+              accumulator = 0;
+              prevPositions = snapshotPositions(stateRef.current);
+              prevCamera = { ...stateRef.current.camera };
+          }
+          if (!rc.paused) accumulator += frameDelta * rc.speed;
+          while (accumulator >= tickMs && rc.tick < replay.tickCount) {
+              prevPositions = snapshotPositions(stateRef.current);
+              prevCamera = { ...stateRef.current.camera };
+              stepReplay(replay, true);
+              accumulator -= tickMs;
+          }
+          if (rc.tick >= replay.tickCount) {
+              rc.paused = true;
+              accumulator = 0;
+          }
+          if (rc.freeCam) {
+              const keys = inputRef.current.keys;
+              const pan = FREE_CAM_SPEED * frameDelta;
+              if (keys['w'] || keys['ArrowUp']) rc.freeCamPos.y -= pan;
+              if (keys['s'] || keys['ArrowDown']) rc.freeCamPos.y += pan;
+              if (keys['a'] || keys['ArrowLeft']) rc.freeCamPos.x -= pan;
+              if (keys['d'] || keys['ArrowRight']) rc.freeCamPos.x += pan;
+          }
+          setReplayHud({ tick: rc.tick, paused: rc.paused, speed: rc.speed, freeCam: rc.freeCam });
+      } else {
+          accumulator += frameDelta;
+          while (accumulator >= tickMs) {
+              prevPositions = snapshotPositions(stateRef.current);
+              prevCamera = { ...stateRef.current.camera };
+              inputRef.current.command = pendingCommand.current;
+              inputRef.current.landing = pendingLanding.current;
+              pendingCommand.current = null;
+              pendingLanding.current = null;
+              recorderRef.current.record(inputRef.current, viewW, viewH);
+              runTick(inputRef.current, viewW, viewH, true);
+              watchForDeath(stateRef.current);
+              accumulator -= tickMs;
+          }
+      }
       const state = stateRef.current;
       const player = state.players.find(x => x.id === 'player');
 
-      // Sync HUD
+      // While the killcam runs, the main view draws the frozen snapshots from the killer's side.
+      // Respawning cuts it short.
+      const killcam = killcamRef.current;
+      const killcamElapsed = killcam ? state.time - killcam.diedAt : 0;
+      const killcamFrame = killcam && !player?.active ? getKillcamFrame(killcam, killcamElapsed) : null;
+      const killcamViewer = killcamFrame
+          ? killcamFrame.players.find(p => p.id === killcam!.killerId) ?? killcamFrame.players.find(p => p.id === 'player')
+          : undefined;
+      const view = killcamFrame ? { ...state, players: killcamFrame.players, bullets: killcamFrame.bullets } : state;
+
+      // How far we are between the previous tick and the current one
+      const alpha = accumulator / tickMs;
+      const lerpPos = (id: string, pos: Vector2): Vector2 => {
+          if (killcamFrame) return pos; // Snapshots are already a tick apart
+          const prev = prevPositions.get(id);
+          // Teleports (spawns) snap instead of sliding across the map
+          if (!prev || Math.abs(prev.x - pos.x) + Math.abs(prev.y - pos.y) > 200) return pos;
+          return { x: prev.x + (pos.x - prev.x) * alpha, y: prev.y + (pos.y - prev.y) * alpha };
+      };
+
+      // Knocked out of a Battle Royale: the camera belongs to the spectator controls
+      const spectate = spectateRef.current;
+      const spectating = !replay && state.mode === GameMode.BATTLE_ROYALE && !!player && !player.active && !killcamFrame;
+      let spectated: Player | undefined;
+      if (spectating) {
+          if (spectate.freeCam) {
+              const keys = inputRef.current.keys;
+              const pan = FREE_CAM_SPEED * frameDelta;
+              if (keys['w'] || keys['ArrowUp']) spectate.freeCamPos.y -= pan;
+              if (keys['s'] || keys['ArrowDown']) spectate.freeCamPos.y += pan;
+              if (keys['a']) spectate.freeCamPos.x -= pan;
+              if (keys['d']) spectate.freeCamPos.x += pan;
+              spectate.freeCamPos.x = Math.max(-viewW / 2, Math.min(state.mapWidth - viewW / 2, spectate.freeCamPos.x));
+              spectate.freeCamPos.y = Math.max(-viewH / 2, Math.min(state.mapHeight - viewH / 2, spectate.freeCamPos.y));
+          } else {
+              // Whoever we were watching went down too: move on to someone still standing
+              spectated = state.players.find(p => p.id === spectate.targetId && p.active) ?? state.players.find(p => p.active);
+              spectate.targetId = spectated?.id ?? null;
+          }
+      }
+      const follow = (p: Player) => {
+          const pos = lerpPos(p.id, p.pos);
+          return { x: pos.x - viewW / 2, y: pos.y - viewH / 2 };
+      };
+      let camera: Vector2;
+      if (killcamViewer) camera = { x: killcamViewer.pos.x - viewW / 2, y: killcamViewer.pos.y - viewH / 2 };
+      else if (spectating && spectate.freeCam) camera = spectate.freeCamPos;
+      else if (spectated) camera = follow(spectated);
+      else if (replay && replayControl.current.freeCam) camera = replayControl.current.freeCamPos;
+      else camera = {
+          x: prevCamera.x + (state.camera.x - prevCamera.x) * alpha,
+          y: prevCamera.y + (state.camera.y - prevCamera.y) * alpha
+      };
+      // What the human was doing this tick: live input, or the recorded input during playback
+      const shownInput = replay ? (replayControl.current.input ?? inputRef.current) : inputRef.current;
+
+      const viewer = killcamViewer ?? spectated ?? player;
+
+      // Sync HUD (a spectated player's HUD stands in for the human's)
       if (player) {
+          const subject = spectated ?? player;
+          const ticket = player.active ? null : getRespawnTicket(state, player.id);
           const alive = state.mode === GameMode.BATTLE_ROYALE ? state.players.filter(p => p.active).length : undefined;
           setHudState({
-              ammo: player.ammo,
-              health: player.health,
+              ammo: subject.ammo,
+              reserve: subject.weapon === WeaponType.KNIFE ? null : getReserve(subject),
+              health: subject.health,
               scoreA: state.scores[Team.ALLIED],
               scoreB: state.scores[Team.AXIS],
               time: state.timeRemaining,
               feed: state.killFeed,
-              shooting: (inputRef.current.mouseDown || (settings.fireMode === 'AUTO' && player.lastShotTime > Date.now() - 100)) && player.ammo > 0, // Visual fix for auto-fire crosshair
+              shooting: (shownInput.mouseDown || (simSettings.fireMode === 'AUTO' && player.lastShotTime > state.time - 100)) && (player.ammo > 0 || player.weapon === WeaponType.KNIFE), // Visual fix for auto-fire crosshair
               lastShot: player.lastShotTime,
               aliveCount: alive,
-              kills: player.kills,
-              deaths: player.deaths
+              kills: subject.kills,
+              deaths: subject.deaths,
+              order: state.squadOrder ? describeOrder(state, state.squadOrder) : null,
+              respawnIn: ticket ? Math.max(0, ticket.respawnAt - state.time) : null,
+              respawnWave: !!ticket?.wave,
+              killcam: killcamFrame ? (killcamViewer && killcamViewer.id !== 'player' ? getDisplayName(killcamViewer) : 'ZONE') : null,
+              showRecap: !!killcam && !killcamFrame && killcamElapsed < KILLCAM_MS + RECAP_MS,
+              weapon: subject.weapon,
+              spectating: spectating ? (spectated ? getDisplayName(spectated) : 'FREE CAM') : null,
+              inventory: describeInventory(subject),
+              lootPrompt: describeLootPrompt(state, subject),
+              deploy: describeDeploy(state, player, !replay),
+              armor: subject.armor,
+              items: subject.inventory && state.mode === GameMode.BATTLE_ROYALE ? { ...subject.inventory.consumables } : null,
+              using: subject.using ? {
+                  name: CONSUMABLES[subject.using.item].name,
+                  progress: 1 - Math.max(0, subject.using.doneAt - state.time) / CONSUMABLES[subject.using.item].useMs
+              } : null,
+              boosts: describeBoosts(subject, state.time)
           });
       }
 
       // Update Crosshair Position Directly
       if (crosshairRef.current) {
-          const { x, y } = inputRef.current.mouse;
+          const { x, y } = shownInput.mouse;
           crosshairRef.current.style.transform = `translate(${x}px, ${y}px)`;
+          crosshairRef.current.style.display = (replay && replayControl.current.freeCam) || spectating ? 'none' : '';
       }
 
       // Check win condition
-      if (!gameOverTriggered.current) {
-          if (state.mode === GameMode.BATTLE_ROYALE) {
-              const activePlayers = state.players.filter(p => p.active);
-              if (activePlayers.length <= 1) {
-                  const survivor = activePlayers[0];
-                  if (survivor && survivor.id === 'player') state.scores[Team.ALLIED] = 999;
-                  else state.scores[Team.AXIS] = 999;
-                  gameOverTriggered.current = true;
-                  onGameOver(survivor && survivor.id === 'player' ? Team.ALLIED : Team.AXIS, state.scores, state.players);
-              }
-              if (player && !player.active && !gameOverTriggered.current) {
-                   gameOverTriggered.current = true;
-                   onGameOver(Team.AXIS, state.scores, state.players);
-              }
-          } else {
-            if (state.scores[Team.ALLIED] >= 100) {
-                gameOverTriggered.current = true;
-                onGameOver(Team.ALLIED, state.scores, state.players);
-            } else if (state.scores[Team.AXIS] >= 100) {
-                gameOverTriggered.current = true;
-                onGameOver(Team.AXIS, state.scores, state.players);
-            } else if (state.timeRemaining <= 0) {
-                gameOverTriggered.current = true;
-                let w = Team.NONE;
-                if (state.scores[Team.ALLIED] > state.scores[Team.AXIS]) w = Team.ALLIED;
-                else if (state.scores[Team.AXIS] > state.scores[Team.ALLIED]) w = Team.AXIS;
-                onGameOver(w, state.scores, state.players);
-            }
+      // The last death still gets its killcam before the match ends
+      if (!gameOverTriggered.current && !replay && !killcamFrame) {
+          const outcome = getMatchOutcome(state);
+          if (outcome) {
+              if (state.mode === GameMode.BATTLE_ROYALE) state.scores[outcome] = 999;
+              gameOverTriggered.current = true;
+              onGameOver(outcome, state.scores, state.players, recorderRef.current.finish(outcome), state.adaptive?.log);
           }
       }
 
@@ -155,7 +409,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
       ctx.fillRect(0, 0, viewW, viewH);
 
       ctx.save();
-      ctx.translate(-state.camera.x, -state.camera.y);
+      ctx.translate(-camera.x, -camera.y);
 
       // Draw Grid / Floor
       ctx.strokeStyle = state.mapTheme.gridColor;
@@ -195,6 +449,27 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
           ctx.fillText(cp.name, cp.pos.x - 10, cp.pos.y);
       });
       
+      // Supply drops: a closing target ring while falling, a crate once down
+      state.supplyDrops.forEach(drop => {
+          if (state.time < drop.landsAt) {
+              const left = (drop.landsAt - state.time) / SUPPLY_DROP_FALL_MS;
+              ctx.beginPath();
+              ctx.arc(drop.pos.x, drop.pos.y, 20 + 80 * left, 0, Math.PI * 2);
+              ctx.strokeStyle = '#facc15aa';
+              ctx.lineWidth = 3;
+              ctx.stroke();
+          } else {
+              ctx.fillStyle = '#78350f';
+              ctx.fillRect(drop.pos.x - 40, drop.pos.y - 22, 80, 44);
+              ctx.strokeStyle = '#facc15';
+              ctx.lineWidth = 3;
+              ctx.strokeRect(drop.pos.x - 40, drop.pos.y - 22, 80, 44);
+          }
+      });
+
+      // Pickup pads
+      state.pickups.forEach(pad => drawPad(ctx, pad, state.time));
+
       // Draw Loot
       if (state.loot) {
           state.loot.forEach(item => {
@@ -203,12 +478,31 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
               ctx.translate(item.pos.x, item.pos.y);
               const offset = Math.sin(Date.now() / 200) * 3;
               ctx.translate(0, offset);
-              ctx.shadowColor = WEAPONS[item.weapon].color;
-              ctx.shadowBlur = 10;
-              ctx.fillStyle = '#222';
-              ctx.fillRect(-10, -5, 20, 10);
-              ctx.fillStyle = WEAPONS[item.weapon].color;
-              ctx.fillRect(-8, -3, 16, 6);
+              if (item.kind === 'WEAPON') {
+                  ctx.shadowColor = RARITY_TIERS[item.rarity].color;
+                  ctx.shadowBlur = 10;
+                  ctx.fillStyle = RARITY_TIERS[item.rarity].color;
+                  ctx.fillRect(-10, -5, 20, 10);
+                  ctx.fillStyle = WEAPONS[item.weapon].color;
+                  ctx.fillRect(-8, -3, 16, 6);
+              } else if (item.kind === 'AMMO') {
+                  // Spares left by the fallen
+                  ctx.fillStyle = '#3f6212';
+                  ctx.fillRect(-9, -6, 18, 12);
+                  ctx.fillStyle = '#facc15';
+                  ctx.fillRect(-9, -1, 18, 2);
+              } else {
+                  // Medkits get a cross, plates a plain slab
+                  ctx.shadowColor = CONSUMABLES[item.kind].color;
+                  ctx.shadowBlur = 10;
+                  ctx.fillStyle = CONSUMABLES[item.kind].color;
+                  ctx.fillRect(-8, -8, 16, 16);
+                  if (item.kind === 'MEDKIT') {
+                      ctx.fillStyle = '#fff';
+                      ctx.fillRect(-2, -6, 4, 12);
+                      ctx.fillRect(-6, -2, 12, 4);
+                  }
+              }
               ctx.restore();
           });
       }
@@ -224,7 +518,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
       // Draw Buildings
       state.buildings.forEach(b => {
          let alpha = 1.0;
-         if (player && player.pos.x > b.x && player.pos.x < b.x + b.w && player.pos.y > b.y && player.pos.y < b.y + b.h) {
+         if (viewer && viewer.pos.x > b.x && viewer.pos.x < b.x + b.w && viewer.pos.y > b.y && viewer.pos.y < b.y + b.h) {
              alpha = 0.2; 
          }
          ctx.fillStyle = b.roofColor;
@@ -236,11 +530,15 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
          ctx.strokeRect(b.x, b.y, b.w, b.h);
       });
 
+      // Drop plane, with whoever is still aboard
+      if (state.deployment) drawPlane(ctx, getPlanePos(state.deployment, state.time), state.deployment, 1);
+
       // Draw Players
-      state.players.forEach(p => {
-          if (!p.active) return;
+      view.players.forEach(p => {
+          if (!p.active || isRidingPlane(state, p)) return;
+          const pos = lerpPos(p.id, p.pos);
           ctx.save();
-          ctx.translate(p.pos.x, p.pos.y);
+          ctx.translate(pos.x, pos.y);
           ctx.rotate(p.angle);
           
           ctx.beginPath();
@@ -257,26 +555,50 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
           ctx.lineWidth = 2;
           ctx.stroke();
 
+          // Spawn protection shield
+          if (isSpawnProtected(p, killcamFrame ? killcamFrame.time : state.time)) {
+              ctx.beginPath();
+              ctx.arc(0, 0, p.radius + 6, 0, Math.PI * 2);
+              ctx.strokeStyle = 'rgba(125, 211, 252, 0.8)';
+              ctx.lineWidth = 2;
+              ctx.stroke();
+          }
+
+          // Power-ups in effect
+          const boostTime = killcamFrame ? killcamFrame.time : state.time;
+          BOOST_TYPES.filter(type => hasBoost(p, type, boostTime)).forEach((type, i) => {
+              ctx.beginPath();
+              ctx.arc(0, 0, p.radius + 10 + i * 4, 0, Math.PI * 2);
+              ctx.strokeStyle = PICKUPS[type].color;
+              ctx.lineWidth = 2;
+              ctx.stroke();
+          });
+
           ctx.fillStyle = WEAPONS[p.weapon].color;
           ctx.fillRect(0, -5, 30, 10); 
           ctx.restore();
           
           ctx.fillStyle = 'red';
-          ctx.fillRect(p.pos.x - 20, p.pos.y - 30, 40, 5);
+          ctx.fillRect(pos.x - 20, pos.y - 30, 40, 5);
           ctx.fillStyle = 'green';
-          ctx.fillRect(p.pos.x - 20, p.pos.y - 30, 40 * (p.health / p.maxHealth), 5);
+          ctx.fillRect(pos.x - 20, pos.y - 30, 40 * (p.health / p.maxHealth), 5);
+          if (p.armor > 0) {
+              ctx.fillStyle = '#38bdf8';
+              ctx.fillRect(pos.x - 20, pos.y - 36, 40 * (p.armor / MAX_ARMOR), 4);
+          }
       });
 
       // Draw Bullets
-      state.bullets.forEach(b => {
+      view.bullets.forEach(b => {
+          const pos = lerpPos(b.id, b.pos);
           ctx.beginPath();
-          ctx.arc(b.pos.x, b.pos.y, 3, 0, Math.PI * 2);
+          ctx.arc(pos.x, pos.y, 3, 0, Math.PI * 2);
           ctx.fillStyle = b.color; 
           ctx.fill();
           
           ctx.beginPath();
-          ctx.moveTo(b.pos.x, b.pos.y);
-          ctx.lineTo(b.pos.x - b.velocity.x * 20, b.pos.y - b.velocity.y * 20);
+          ctx.moveTo(pos.x, pos.y);
+          ctx.lineTo(pos.x - b.velocity.x * 20, pos.y - b.velocity.y * 20);
           ctx.strokeStyle = b.color; 
           ctx.stroke();
       });
@@ -284,11 +606,12 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
       ctx.restore();
 
       // 3. DRAW MINIMAP
-      drawMinimap(ctx, state, viewW, player);
+      drawMinimap(ctx, state, viewW, spectated ?? player);
 
-      // 4. DRAW FULL MAP OVERLAY
-      if (showFullMap) {
-          drawFullMap(ctx, state, viewW, viewH);
+      // 4. DRAW FULL MAP OVERLAY (always up while the human picks a landing spot)
+      const pickingLanding = !replay && !!player && isRidingPlane(state, player);
+      if (showFullMap || pickingLanding) {
+          drawFullMap(ctx, state, viewW, viewH, canCommand, pickingLanding);
       }
 
       animationFrameId = requestAnimationFrame(render);
@@ -304,7 +627,74 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
       window.removeEventListener('mouseup', handleMouseUp);
       cancelAnimationFrame(animationFrameId);
     };
-  }, [onGameOver, gameSetup, showFullMap, settings]);
+  }, [onGameOver, gameSetup, showFullMap, settings, replay]);
+
+  // Replay Controls
+  const toggleReplayPause = () => {
+      const rc = replayControl.current;
+      // Play from the end restarts the recording
+      if (replay && rc.paused && rc.tick >= replay.tickCount) rc.seekTo = 0;
+      rc.paused = !rc.paused;
+  };
+  const setReplaySpeed = (speed: number) => { replayControl.current.speed = speed; };
+
+  // Tactical map: tap a control point to attack it, anywhere else to hold there
+  const handleMapCommand = (clientX: number, clientY: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
+      const state = stateRef.current;
+      const view = getFullMapTransform(state, dims.current.w, dims.current.h);
+      const pos = { x: (clientX - rect.left - view.x) / view.scale, y: (clientY - rect.top - view.y) / view.scale };
+      if (pos.x < 0 || pos.y < 0 || pos.x > state.mapWidth || pos.y > state.mapHeight) return;
+      const cp = state.controlPoints.find(c => (c.active || state.mode !== GameMode.HARDPOINT) && Math.hypot(c.pos.x - pos.x, c.pos.y - pos.y) < c.radius * 1.5);
+      issueCommand(cp ? { type: 'ATTACK', objectiveId: cp.id } : { type: 'HOLD', pos });
+  };
+  // Deployment map: anywhere on the map becomes the landing spot
+  const handleLandingPick = (clientX: number, clientY: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
+      const state = stateRef.current;
+      const view = getFullMapTransform(state, dims.current.w, dims.current.h);
+      const pos = { x: (clientX - rect.left - view.x) / view.scale, y: (clientY - rect.top - view.y) / view.scale };
+      if (pos.x < 0 || pos.y < 0 || pos.x > state.mapWidth || pos.y > state.mapHeight) return;
+      pendingLanding.current = pos;
+  };
+  // Spectating (Battle Royale, after elimination)
+  const isSpectating = () => {
+      const state = stateRef.current;
+      return !replay && state.mode === GameMode.BATTLE_ROYALE && state.players.some(p => p.id === 'player' && !p.active);
+  };
+  const cycleSpectate = (dir: 1 | -1) => {
+      const living = stateRef.current.players.filter(p => p.active);
+      if (living.length === 0) return;
+      const spectate = spectateRef.current;
+      const index = living.findIndex(p => p.id === spectate.targetId);
+      spectate.targetId = living[index === -1 ? 0 : (index + dir + living.length) % living.length].id;
+      spectate.freeCam = false;
+  };
+  const toggleSpectateFreeCam = () => {
+      const spectate = spectateRef.current;
+      spectate.freeCam = !spectate.freeCam;
+      // Take off from wherever we were watching
+      const watched = stateRef.current.players.find(p => p.id === spectate.targetId);
+      if (spectate.freeCam && watched) spectate.freeCamPos = { x: watched.pos.x - dims.current.w / 2, y: watched.pos.y - dims.current.h / 2 };
+  };
+  // Ends the match for the human now; their placement is already settled
+  const leaveToLobby = () => {
+      if (gameOverTriggered.current) return;
+      gameOverTriggered.current = true;
+      const state = stateRef.current;
+      state.scores[Team.AXIS] = 999;
+      onGameOver(Team.AXIS, state.scores, state.players, recorderRef.current.finish(Team.AXIS), state.adaptive?.log);
+  };
+
+  const toggleFreeCam = () => {
+      const rc = replayControl.current;
+      rc.freeCam = !rc.freeCam;
+      if (rc.freeCam) rc.freeCamPos = { ...stateRef.current.camera };
+  };
 
   // Mobile Handlers
   const handleMobileMove = (key: string, active: boolean) => {
@@ -367,8 +757,47 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
         className="block"
       />
       
+      {/* REPLAY CONTROLS */}
+      {replay && (
+          <div className="absolute bottom-4 right-4 w-[min(520px,calc(100%-2rem))] bg-black/80 border border-white/10 rounded-lg p-3 text-white font-mono text-xs z-30 space-y-2">
+              <div className="flex items-center gap-2">
+                  <button className="px-3 py-1 bg-yellow-500 text-black font-bold rounded" onClick={toggleReplayPause}>
+                      {replayHud.paused ? 'PLAY' : 'PAUSE'}
+                  </button>
+                  {REPLAY_SPEEDS.map(speed => (
+                      <button
+                          key={speed}
+                          className={`px-2 py-1 rounded ${replayHud.speed === speed ? 'bg-white text-black' : 'bg-white/10'}`}
+                          onClick={() => setReplaySpeed(speed)}
+                      >
+                          {speed}x
+                      </button>
+                  ))}
+                  <button
+                      className={`px-2 py-1 rounded ${replayHud.freeCam ? 'bg-blue-500' : 'bg-white/10'}`}
+                      onClick={toggleFreeCam}
+                  >
+                      FREE CAM
+                  </button>
+                  <button className="ml-auto px-3 py-1 border border-red-500 text-red-400 rounded" onClick={onExitReplay}>EXIT</button>
+              </div>
+              <div className="flex items-center gap-2">
+                  <span>{formatReplayTime(replayHud.tick * replay.tickMs)}</span>
+                  <input
+                      type="range"
+                      min="0" max={replay.tickCount}
+                      value={replayHud.tick}
+                      onChange={(e) => { replayControl.current.seekTo = parseInt(e.target.value); }}
+                      className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                  />
+                  <span>{formatReplayTime(replay.tickCount * replay.tickMs)}</span>
+              </div>
+              {replayHud.freeCam && <div className="text-gray-400">WASD / arrows or drag to pan</div>}
+          </div>
+      )}
+
       {/* MOBILE CONTROLS OVERLAY */}
-      {isMobile && (
+      {isMobile && !replay && (
           <div className="absolute inset-0 pointer-events-none select-none touch-none">
               <div 
                   className="absolute top-0 right-0 w-1/2 h-full pointer-events-auto"
@@ -384,6 +813,14 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
               >
                   MAP
               </button>
+              {canCommand && (
+                  <button 
+                      className="absolute top-[190px] left-6 w-12 h-12 bg-green-600/50 rounded border-2 border-green-400 text-white font-bold text-xs shadow-lg pointer-events-auto z-20"
+                      onTouchStart={(e) => { e.stopPropagation(); toggleCommandWheel(!commandWheelOpen.current); }}
+                  >
+                      CMD
+                  </button>
+              )}
               {aimStick && (
                   <div 
                     className="absolute w-24 h-24 rounded-full border-2 border-white/30 bg-black/20 pointer-events-none"
@@ -404,6 +841,61 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
               <div className={`absolute bottom-6 right-6 flex gap-4 pointer-events-auto opacity-70 z-10 ${isPortrait ? 'bottom-20' : ''}`}>
                    <button className="w-20 h-20 bg-red-600/50 rounded-full border-4 border-red-400 active:bg-red-500 flex items-center justify-center font-bold text-white text-lg shadow-lg" onTouchStart={() => handleMobileFire(true)} onTouchEnd={() => handleMobileFire(false)}>FIRE</button>
                    <button className="w-14 h-14 bg-yellow-500/50 rounded-full border-2 border-yellow-400 active:bg-yellow-500 flex items-center justify-center font-bold text-white shadow-lg self-end" onTouchStart={() => handleMobileMove('r', true)} onTouchEnd={() => handleMobileMove('r', false)}>R</button>
+                   {hudState?.inventory && (
+                       <div className="flex flex-col gap-2 self-end">
+                           {hudState.items && <button className="w-12 h-12 bg-emerald-500/50 rounded-full border-2 border-emerald-400 active:bg-emerald-500 flex items-center justify-center font-bold text-white text-xs shadow-lg" onTouchStart={() => handleMobileMove('e', true)} onTouchEnd={() => handleMobileMove('e', false)}>GRAB</button>}
+                           <button className="w-12 h-12 bg-white/20 rounded-full border-2 border-white/40 active:bg-white/50 flex items-center justify-center font-bold text-white text-xs shadow-lg" onTouchStart={() => handleMobileMove('x', true)} onTouchEnd={() => handleMobileMove('x', false)}>SWAP</button>
+                           {hudState.items && (
+                               <>
+                                   <button className="w-12 h-12 bg-red-500/50 rounded-full border-2 border-red-400 active:bg-red-500 flex items-center justify-center font-bold text-white text-xs shadow-lg" onTouchStart={() => handleMobileMove('h', true)} onTouchEnd={() => handleMobileMove('h', false)}>MED</button>
+                                   <button className="w-12 h-12 bg-sky-500/50 rounded-full border-2 border-sky-400 active:bg-sky-500 flex items-center justify-center font-bold text-white text-xs shadow-lg" onTouchStart={() => handleMobileMove('b', true)} onTouchEnd={() => handleMobileMove('b', false)}>PLATE</button>
+                               </>
+                           )}
+                       </div>
+                   )}
+              </div>
+          </div>
+      )}
+
+      {/* LANDING PICK */}
+      {hudState?.deploy?.picking && (
+          <div
+              className="absolute inset-0 z-[15]"
+              onMouseDown={(e) => handleLandingPick(e.clientX, e.clientY)}
+              onTouchStart={(e) => { const t = e.changedTouches[0]; handleLandingPick(t.clientX, t.clientY); }}
+          />
+      )}
+
+      {/* TACTICAL MAP ORDERS */}
+      {canCommand && showFullMap && (
+          <div
+              className="absolute inset-0 z-[15]"
+              onMouseDown={(e) => handleMapCommand(e.clientX, e.clientY)}
+              onTouchStart={(e) => { const t = e.changedTouches[0]; handleMapCommand(t.clientX, t.clientY); }}
+          />
+      )}
+
+      {/* COMMAND WHEEL */}
+      {canCommand && showCommandWheel && (
+          <div className="absolute inset-0 flex items-center justify-center z-30 pointer-events-none">
+              <div className="relative w-80 h-80 rounded-full bg-black/70 border border-white/20 pointer-events-auto cursor-default">
+                  {getCommandOptions(stateRef.current).map((option, i, all) => {
+                      const angle = (Math.PI * 2 * i) / all.length - Math.PI / 2;
+                      return (
+                          <button
+                              key={option.label}
+                              className="absolute w-28 -translate-x-1/2 -translate-y-1/2 px-2 py-2 bg-white/10 hover:bg-green-600 active:bg-green-600 border border-white/20 rounded text-white font-mono text-xs font-bold"
+                              style={{ left: `${50 + Math.cos(angle) * 36}%`, top: `${50 + Math.sin(angle) * 36}%` }}
+                              onClick={() => issueCommand(option.command)}
+                              onTouchStart={(e) => { e.preventDefault(); issueCommand(option.command); }}
+                          >
+                              {!isMobile && <span className="text-green-400 mr-1">{i + 1}</span>}{option.label}
+                          </button>
+                      );
+                  })}
+                  <div className="absolute inset-0 flex items-center justify-center text-gray-400 font-mono text-[10px] pointer-events-none">
+                      {isMobile ? 'SQUAD ORDERS' : 'Q / ESC TO CLOSE'}
+                  </div>
               </div>
           </div>
       )}
@@ -432,6 +924,80 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
            )}
         </div>
 
+        {/* Active Squad Order */}
+        {hudState.order && (
+            <div className="absolute top-20 left-1/2 -translate-x-1/2 text-green-400 font-mono text-xs bg-black/60 px-3 py-1 rounded border border-green-500/40 pointer-events-none">
+                SQUAD: {hudState.order}
+            </div>
+        )}
+
+        {/* Killcam */}
+        {hudState.killcam && (
+            <div className="absolute top-28 left-1/2 -translate-x-1/2 bg-black/70 px-6 py-2 rounded border border-red-500/60 text-center pointer-events-none">
+                <div className="text-red-500 font-black tracking-widest text-sm md:text-lg">KILLCAM</div>
+                <div className="text-white font-mono text-xs md:text-sm">{hudState.killcam}</div>
+            </div>
+        )}
+
+        {/* Spectator Controls */}
+        {hudState.spectating && (
+            <div className="absolute top-28 left-1/2 -translate-x-1/2 bg-black/80 px-4 py-3 rounded border border-white/10 text-center text-white font-mono text-xs z-30 space-y-2">
+                <div className="tracking-widest"><span className="text-gray-400">SPECTATING</span> <span className="font-bold text-yellow-400">{hudState.spectating}</span></div>
+                <div className="flex gap-2 justify-center">
+                    <button className="px-3 py-1 bg-white/10 rounded" onClick={() => cycleSpectate(-1)}>PREV</button>
+                    <button className="px-3 py-1 bg-white/10 rounded" onClick={() => cycleSpectate(1)}>NEXT</button>
+                    <button className={`px-3 py-1 rounded ${hudState.spectating === 'FREE CAM' ? 'bg-blue-500' : 'bg-white/10'}`} onClick={toggleSpectateFreeCam}>FREE CAM</button>
+                    <button className="px-3 py-1 bg-red-600 font-bold rounded" onClick={leaveToLobby}>LEAVE TO LOBBY</button>
+                </div>
+                {!isMobile && <div className="text-gray-500 text-[10px]">Q / E to switch player, F for free cam, WASD to fly</div>}
+            </div>
+        )}
+
+        {/* Death Recap */}
+        {hudState.showRecap && deathRecap.length > 0 && (
+            <div className="absolute bottom-32 left-1/2 -translate-x-1/2 w-72 md:w-96 bg-black/80 p-3 rounded border border-white/10 font-mono text-[10px] md:text-xs text-gray-300 pointer-events-none">
+                <div className="text-white font-bold tracking-widest border-b border-white/10 pb-1 mb-1">DEATH RECAP</div>
+                {deathRecap.map(entry => (
+                    <div key={entry.attackerId ?? 'zone'} className={`grid grid-cols-4 gap-2 ${entry.killer ? 'text-red-400' : ''}`}>
+                        <span className="col-span-2 truncate">{entry.name}{entry.weapon ? ` | ${WEAPONS[entry.weapon].name}` : ''}</span>
+                        <span className="text-right">{Math.round(entry.damage)} DMG{entry.hits > 0 ? ` (${entry.hits})` : ''}</span>
+                        <span className="text-right">{entry.hits > 0 ? `${Math.round(entry.distance)}px` : '-'}</span>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        {/* Respawn Countdown */}
+        {hudState.respawnIn !== null && !hudState.killcam && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                <div className="bg-black/70 px-8 py-4 rounded border border-red-500/40 text-center">
+                    <div className="text-red-500 font-black text-2xl md:text-4xl tracking-widest">KIA</div>
+                    <div className="text-white font-mono text-sm md:text-lg mt-1">
+                        {hudState.respawnWave ? 'NEXT WAVE IN' : 'RESPAWN IN'} {Math.ceil(hudState.respawnIn / 1000)}
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {hudState.deploy && (
+            <div className="absolute top-20 left-1/2 -translate-x-1/2 pointer-events-none bg-black/70 px-6 py-2 rounded border border-yellow-400/50 text-yellow-400 font-black tracking-widest text-sm md:text-lg z-20">
+                {hudState.deploy.label}
+            </div>
+        )}
+
+        {hudState.using && (
+            <div className="absolute bottom-1/3 left-1/2 -translate-x-1/2 translate-y-10 pointer-events-none w-48 text-center text-white font-mono text-xs">
+                USING {hudState.using.name.toUpperCase()}
+                <div className="h-1.5 bg-gray-700 mt-1"><div className="h-full bg-white" style={{ width: `${hudState.using.progress * 100}%` }} /></div>
+            </div>
+        )}
+
+        {hudState.lootPrompt && (
+            <div className="absolute bottom-1/3 left-1/2 -translate-x-1/2 pointer-events-none bg-black/70 px-4 py-2 rounded text-white font-mono text-xs md:text-sm">
+                {isMobile ? 'GRAB' : '[E]'} {hudState.lootPrompt}
+            </div>
+        )}
+
         {/* Kill Feed - Adjusted for Mobile */}
         <div className={`absolute text-white font-mono text-[10px] md:text-xs bg-black/50 p-2 rounded w-48 md:w-64 pointer-events-none transition-all
             ${isMobile 
@@ -453,16 +1019,37 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
           <div className="flex justify-between items-end">
              <div>
                 <div className={`${isMobile ? 'text-2xl' : 'text-3xl md:text-4xl'}`}>{Math.ceil(hudState.health)} <span className="text-xs md:text-lg text-gray-400">HP</span></div>
+                <div className="w-32 md:w-40 h-1.5 bg-gray-700 mt-1" title="Armor">
+                    <div className="h-full bg-sky-400" style={{ width: `${(hudState.armor / MAX_ARMOR) * 100}%` }} />
+                </div>
+                {hudState.boosts.map(b => (
+                    <div key={b.label} className="text-[10px] md:text-xs font-mono mt-1" style={{ color: b.color }}>{b.label} {b.secs}s</div>
+                ))}
                 <div className="flex gap-4 text-xs md:text-sm text-gray-400 font-mono mt-1">
                     <div>K: <span className="text-white">{hudState.kills}</span></div>
                     <div>D: <span className="text-white">{hudState.deaths}</span></div>
                 </div>
              </div>
              <div className="text-right">
-                <div className={`${isMobile ? 'text-2xl' : 'text-3xl md:text-4xl'} text-yellow-400`}>{hudState.ammo} <span className="text-xs md:text-lg text-gray-400">/ ∞</span></div>
-                {!isMobile && <div className="text-xs md:text-sm uppercase tracking-widest text-gray-300">{WEAPONS[gameSetup.weapon].name}</div>}
+                <div className={`${isMobile ? 'text-2xl' : 'text-3xl md:text-4xl'} ${hudState.ammo === 0 && hudState.reserve === 0 ? 'text-red-500' : 'text-yellow-400'}`}>{hudState.ammo} <span className="text-xs md:text-lg text-gray-400">/ {hudState.reserve ?? '∞'}</span></div>
+                {!isMobile && <div className="text-xs md:text-sm uppercase tracking-widest text-gray-300">{WEAPONS[hudState.weapon].name}</div>}
              </div>
           </div>
+          {hudState.items && (
+              <div className="flex gap-4 mt-2 text-[10px] md:text-xs font-mono text-gray-300">
+                  <div><span className="text-red-400">{isMobile ? '' : '[H] '}MEDKIT</span> x{hudState.items.MEDKIT}</div>
+                  <div><span className="text-sky-400">{isMobile ? '' : '[B] '}PLATE</span> x{hudState.items.PLATE}</div>
+              </div>
+          )}
+          {hudState.inventory && (
+              <div className="flex gap-2 mt-2 text-[10px] md:text-xs font-mono">
+                  {hudState.inventory.map(slot => (
+                      <div key={slot.key} className={`flex-1 px-1 py-0.5 border-b-2 truncate ${slot.active ? 'bg-white/20 text-white' : 'text-gray-400'}`} style={{ borderColor: slot.color }}>
+                          {slot.key} {slot.name}
+                      </div>
+                  ))}
+              </div>
+          )}
         </div>
       </>
       )}
@@ -471,6 +1058,145 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ onGameOver, gameSetup, settings
 };
 
 // --- HELPER RENDERING FUNCTIONS ---
+// --- BR DEPLOYMENT ---
+const isRidingPlane = (state: GameState, p: Player) => !!p.drop && state.time < p.drop.jumpAt;
+
+const drawPlane = (ctx: CanvasRenderingContext2D, pos: Vector2, deployment: Deployment, scale: number) => {
+    const angle = Math.atan2(deployment.to.y - deployment.from.y, deployment.to.x - deployment.from.x);
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.rotate(angle);
+    ctx.scale(scale, scale);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.beginPath();
+    ctx.moveTo(40, 0); ctx.lineTo(-30, -35); ctx.lineTo(-15, 0); ctx.lineTo(-30, 35);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+};
+
+const describeDeploy = (state: GameState, player: Player, canPick: boolean) => {
+    const drop = player.drop;
+    if (!drop) return null;
+    if (state.time >= drop.jumpAt) return { picking: false, label: 'DESCENDING - WEAPONS HOT ON LANDING' };
+    const jumpIn = Math.ceil((drop.jumpAt - state.time) / 1000);
+    return { picking: canPick, label: drop.landing ? `JUMPING IN ${jumpIn}` : `PICK A LANDING SPOT - AUTO-DROP IN ${jumpIn}` };
+};
+
+// Map marker for a supply drop; blinks until it lands
+const drawSupplyMarker = (ctx: CanvasRenderingContext2D, drop: SupplyDrop, time: number, size: number) => {
+    if (time < drop.landsAt && Math.floor(time / 400) % 2 === 1) return;
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#facc15';
+    ctx.fillRect(drop.pos.x - size / 2, drop.pos.y - size / 2, size, size);
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = size / 6;
+    ctx.strokeRect(drop.pos.x - size / 2, drop.pos.y - size / 2, size, size);
+};
+
+// --- PICKUP PADS ---
+const BOOST_TYPES: BoostType[] = ['DAMAGE_BOOST', 'SPEED_BOOST'];
+
+// A base ring for every pad; stocked pads show what they hold, empty ones how long until they restock
+const drawPad = (ctx: CanvasRenderingContext2D, pad: PickupPad, time: number) => {
+    const stats = PICKUPS[pad.type];
+    ctx.save();
+    ctx.translate(pad.pos.x, pad.pos.y);
+    ctx.beginPath();
+    ctx.arc(0, 0, pad.radius + 6, 0, Math.PI * 2);
+    ctx.fillStyle = '#00000066';
+    ctx.fill();
+    ctx.strokeStyle = stats.color + '88';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    if (pad.active) {
+        ctx.translate(0, Math.sin(time / 200) * 3);
+        ctx.shadowColor = stats.color;
+        ctx.shadowBlur = 12;
+        ctx.fillStyle = stats.color;
+        ctx.fillRect(-11, -11, 22, 22);
+        ctx.shadowBlur = 0;
+        ctx.fillStyle = '#000';
+        ctx.font = 'bold 9px monospace';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(stats.label, 0, 1);
+    } else {
+        const progress = 1 - Math.max(0, pad.respawnAt - time) / stats.respawnMs;
+        ctx.beginPath();
+        ctx.arc(0, 0, pad.radius, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+        ctx.strokeStyle = stats.color;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+    }
+    ctx.restore();
+};
+
+const drawPadMarker = (ctx: CanvasRenderingContext2D, pad: PickupPad, size: number) => {
+    ctx.globalAlpha = pad.active ? 1 : 0.3;
+    ctx.fillStyle = PICKUPS[pad.type].color;
+    ctx.fillRect(pad.pos.x - size / 2, pad.pos.y - size / 2, size, size);
+    ctx.globalAlpha = 1;
+};
+
+const describeBoosts = (p: Player, time: number) =>
+    BOOST_TYPES.filter(type => hasBoost(p, type, time)).map(type => ({
+        label: PICKUPS[type].name.toUpperCase(),
+        color: PICKUPS[type].color,
+        secs: Math.ceil((p.boosts![type]! - time) / 1000)
+    }));
+
+// --- BR INVENTORY HUD ---
+interface InventoryHud {
+    key: string;
+    name: string;
+    color: string;
+    active: boolean;
+}
+
+const describeInventory = (p: Player): InventoryHud[] | null => {
+    const inv = p.inventory;
+    if (!inv) return null;
+    const slots = inv.slots.map((slot, i) => ({
+        key: `${i + 1}`,
+        name: slot ? WEAPONS[slot.weapon].name : 'EMPTY',
+        color: slot ? RARITY_TIERS[slot.rarity].color : '#4b5563',
+        active: inv.active === i
+    }));
+    return [...slots, { key: `${slots.length + 1}`, name: WEAPONS[WeaponType.KNIFE].name, color: '#e5e7eb', active: inv.active === null }];
+};
+
+const describeLootPrompt = (state: GameState, p: Player) => {
+    if (!p.inventory || !p.active || p.isBot) return null;
+    const loot = findLootInReach(state, p);
+    return loot ? `${RARITY_TIERS[loot.rarity].name} ${WEAPONS[loot.weapon].name}` : null;
+};
+
+const formatReplayTime = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// The engine mutates entities in place, so positions have to be copied out before each tick
+const snapshotPositions = (state: GameState): Map<string, Vector2> => {
+    const positions = new Map<string, Vector2>();
+    state.players.forEach(p => positions.set(p.id, { x: p.pos.x, y: p.pos.y }));
+    state.bullets.forEach(b => positions.set(b.id, { x: b.pos.x, y: b.pos.y }));
+    return positions;
+};
+
+// Dashed outline of where the BR circle closes to next
+const drawNextZone = (ctx: CanvasRenderingContext2D, zone: Zone, lineWidth: number) => {
+    if (zone.state === 'CLOSED' || zone.targetRadius <= 0) return;
+    ctx.beginPath();
+    ctx.arc(zone.targetX, zone.targetY, zone.targetRadius, 0, Math.PI * 2);
+    ctx.setLineDash([lineWidth * 3, lineWidth * 2]);
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+    ctx.setLineDash([]);
+};
+
 const drawMinimap = (ctx: CanvasRenderingContext2D, state: GameState, viewW: number, player?: Player) => {
     if (!player) return;
     const isSmallScreen = viewW < 768;
@@ -510,10 +1236,13 @@ const drawMinimap = (ctx: CanvasRenderingContext2D, state: GameState, viewW: num
         ctx.strokeStyle = '#00ff00';
         ctx.lineWidth = 10;
         ctx.stroke();
+        drawNextZone(ctx, state.zone, 10);
     }
+    state.supplyDrops.forEach(drop => drawSupplyMarker(ctx, drop, state.time, 150));
+    state.pickups.forEach(pad => drawPadMarker(ctx, pad, 60));
 
     state.players.forEach(p => {
-        if (!p.active) return;
+        if (!p.active || isRidingPlane(state, p)) return;
         const isEnemy = state.mode === GameMode.BATTLE_ROYALE ? p.id !== player.id : p.team !== player.team;
         ctx.fillStyle = isEnemy ? '#ef4444' : '#3b82f6';
         if (p.id === player.id) ctx.fillStyle = '#fff';
@@ -525,18 +1254,41 @@ const drawMinimap = (ctx: CanvasRenderingContext2D, state: GameState, viewW: num
     ctx.strokeRect(margin, margin, size, size);
 };
 
-const drawFullMap = (ctx: CanvasRenderingContext2D, state: GameState, viewW: number, viewH: number) => {
-    ctx.save();
-    ctx.fillStyle = '#000000dd';
-    ctx.fillRect(0, 0, viewW, viewH);
+// Where the tactical map sits on screen; shared by drawing and click handling
+const getFullMapTransform = (state: GameState, viewW: number, viewH: number) => {
     const margin = 50;
     const drawW = viewW - margin * 2;
     const drawH = viewH - margin * 2;
     // Scale against actual map size
     const scale = Math.min(drawW / state.mapWidth, drawH / state.mapHeight);
+    return { scale, x: viewW/2 - (state.mapWidth * scale)/2, y: viewH/2 - (state.mapHeight * scale)/2 };
+};
+
+// Squad orders on offer right now. Hardpoint only lists the live hill.
+const getCommandOptions = (state: GameState): { label: string, command: SquadCommand }[] => [
+    { label: 'FOLLOW ME', command: { type: 'FOLLOW' } },
+    { label: 'HOLD HERE', command: { type: 'HOLD' } },
+    { label: 'REGROUP', command: { type: 'REGROUP' } },
+    ...state.controlPoints
+        .filter(cp => cp.active || state.mode !== GameMode.HARDPOINT)
+        .map(cp => ({ label: `ATTACK ${cp.name}`, command: { type: 'ATTACK', objectiveId: cp.id } as SquadCommand })),
+    { label: 'CANCEL', command: { type: 'CANCEL' } }
+];
+
+const describeOrder = (state: GameState, order: SquadOrder) => {
+    if (order.type !== 'ATTACK') return ORDER_LABELS[order.type];
+    const cp = state.controlPoints.find(c => c.id === order.objectiveId);
+    return `${ORDER_LABELS.ATTACK} ${cp ? cp.name : ''}`.trim();
+};
+
+const drawFullMap = (ctx: CanvasRenderingContext2D, state: GameState, viewW: number, viewH: number, canCommand: boolean, pickingLanding: boolean) => {
+    ctx.save();
+    ctx.fillStyle = '#000000dd';
+    ctx.fillRect(0, 0, viewW, viewH);
+    const view = getFullMapTransform(state, viewW, viewH);
     
-    ctx.translate(viewW/2 - (state.mapWidth * scale)/2, viewH/2 - (state.mapHeight * scale)/2);
-    ctx.scale(scale, scale);
+    ctx.translate(view.x, view.y);
+    ctx.scale(view.scale, view.scale);
     ctx.strokeStyle = '#444';
     ctx.lineWidth = 10;
     ctx.strokeRect(0, 0, state.mapWidth, state.mapHeight);
@@ -552,7 +1304,10 @@ const drawFullMap = (ctx: CanvasRenderingContext2D, state: GameState, viewW: num
         ctx.strokeStyle = '#00ff00';
         ctx.lineWidth = 20;
         ctx.stroke();
+        drawNextZone(ctx, state.zone, 20);
     }
+    state.supplyDrops.forEach(drop => drawSupplyMarker(ctx, drop, state.time, 120));
+    state.pickups.forEach(pad => drawPadMarker(ctx, pad, 50));
 
     state.controlPoints.forEach(cp => {
         ctx.fillStyle = TEAM_COLORS[cp.team];
@@ -560,15 +1315,58 @@ const drawFullMap = (ctx: CanvasRenderingContext2D, state: GameState, viewW: num
         ctx.beginPath(); ctx.arc(cp.pos.x, cp.pos.y, cp.radius, 0, Math.PI * 2); ctx.fill();
     });
     state.players.forEach(p => {
-        if (!p.active) return;
+        if (!p.active || isRidingPlane(state, p)) return;
         ctx.fillStyle = p.team === Team.ALLIED ? TEAM_COLORS.ALLIED : TEAM_COLORS.AXIS;
         ctx.beginPath(); ctx.arc(p.pos.x, p.pos.y, p.radius * 3, 0, Math.PI * 2); ctx.fill();
     });
+
+    // Flight path, the plane, and where the human is headed
+    if (state.deployment) {
+        ctx.globalAlpha = 1;
+        ctx.beginPath();
+        ctx.moveTo(state.deployment.from.x, state.deployment.from.y);
+        ctx.lineTo(state.deployment.to.x, state.deployment.to.y);
+        ctx.setLineDash([60, 40]);
+        ctx.strokeStyle = '#facc15';
+        ctx.lineWidth = 12;
+        ctx.stroke();
+        ctx.setLineDash([]);
+        drawPlane(ctx, getPlanePos(state.deployment, state.time), state.deployment, 4);
+        const landing = state.players.find(p => !p.isBot)?.drop?.landing;
+        if (landing) {
+            ctx.strokeStyle = '#facc15';
+            ctx.lineWidth = 20;
+            ctx.beginPath();
+            ctx.moveTo(landing.x - 60, landing.y - 60); ctx.lineTo(landing.x + 60, landing.y + 60);
+            ctx.moveTo(landing.x + 60, landing.y - 60); ctx.lineTo(landing.x - 60, landing.y + 60);
+            ctx.stroke();
+        }
+    }
+
+    // Current squad order
+    const order = state.squadOrder;
+    const orderPos = order?.type === 'HOLD' ? order.pos : order?.type === 'ATTACK' ? state.controlPoints.find(c => c.id === order.objectiveId)?.pos : null;
+    if (orderPos) {
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = '#4ade80';
+        ctx.lineWidth = 15;
+        ctx.beginPath(); ctx.arc(orderPos.x, orderPos.y, 120, 0, Math.PI * 2); ctx.stroke();
+    }
     ctx.restore();
     ctx.fillStyle = 'white';
     ctx.font = '30px Arial';
     ctx.textAlign = 'center';
     ctx.fillText("TACTICAL MAP", viewW/2, 40);
+    if (canCommand) {
+        ctx.font = '14px monospace';
+        ctx.fillStyle = '#4ade80';
+        ctx.fillText("CLICK A POINT TO ATTACK IT - CLICK ANYWHERE ELSE TO HOLD THERE", viewW/2, viewH - 20);
+    }
+    if (pickingLanding) {
+        ctx.font = '14px monospace';
+        ctx.fillStyle = '#facc15';
+        ctx.fillText("CLICK THE MAP TO PICK A LANDING SPOT - YOU JUMP WHERE THE PLANE PASSES CLOSEST", viewW/2, viewH - 20);
+    }
 };
 
 const AnimatedCrosshair = React.forwardRef<HTMLDivElement, {shooting: boolean, lastShot: number}>(({ shooting, lastShot }, ref) => {
@@ -1,8 +1,9 @@
 
-import { WeaponType, WeaponStats, Operator, MapId } from './types';
+import { WeaponType, WeaponStats, Operator, MapId, BotPersonality, ZonePhase, Rarity, RarityTier, ConsumableType, ConsumableStats, PickupType, PickupStats } from './types';
 
-export const CANVAS_WIDTH = window.innerWidth;
-export const CANVAS_HEIGHT = window.innerHeight;
+// Guarded so the engine and constants can be loaded outside the browser (headless match runner)
+export const CANVAS_WIDTH = typeof window !== 'undefined' ? window.innerWidth : 1280;
+export const CANVAS_HEIGHT = typeof window !== 'undefined' ? window.innerHeight : 720;
 
 export const WORLD_WIDTH = 3000;
 export const WORLD_HEIGHT = 2000;
@@ -11,6 +12,7 @@ export const TICK_RATE = 60;
 export const PLAYER_RADIUS = 16;
 export const PLAYER_SPEED = 5;
 export const SPRINT_MULTIPLIER = 1.5;
+export const BULLET_SPEED = 25; // px per 60Hz frame
 export const BOT_COUNT = 9; // 5v5 total including player
 export const BR_PLAYER_COUNT = 30; // 1 Player + 29 Bots
 
@@ -24,7 +26,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 50,
     accuracy: 0.1,
     magSize: 100, // effectively infinite
+    maxReserve: 0, // never runs out anyway
     reloadTime: 0,
+    noise: 40, // hearing radius in px
     color: '#ffffff88' // transparent white slash
   },
   [WeaponType.PISTOL]: {
@@ -36,7 +40,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 600,
     accuracy: 0.05,
     magSize: 7,
+    maxReserve: 35,
     reloadTime: 1200,
+    noise: 700,
     color: '#94a3b8' // slate
   },
   [WeaponType.SMG]: {
@@ -48,7 +54,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 500,
     accuracy: 0.15,
     magSize: 30,
+    maxReserve: 120,
     reloadTime: 1500,
+    noise: 800,
     color: '#60a5fa' // blue
   },
   [WeaponType.PDW]: {
@@ -60,7 +68,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 400,
     accuracy: 0.2,
     magSize: 50,
+    maxReserve: 150,
     reloadTime: 2200,
+    noise: 750,
     color: '#818cf8' // indigo
   },
   [WeaponType.SHOTGUN]: {
@@ -72,7 +82,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 250,
     accuracy: 0.3,
     magSize: 8,
+    maxReserve: 24,
     reloadTime: 2500,
+    noise: 1000,
     color: '#a3a3a3' // gray
   },
   [WeaponType.AUTO_SHOTGUN]: {
@@ -84,7 +96,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 200,
     accuracy: 0.4,
     magSize: 20,
+    maxReserve: 60,
     reloadTime: 3000,
+    noise: 1000,
     color: '#dc2626' // red tracer
   },
   [WeaponType.RIFLE]: {
@@ -96,7 +110,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 800,
     accuracy: 0.05,
     magSize: 30,
+    maxReserve: 120,
     reloadTime: 2000,
+    noise: 1000,
     color: '#fbbf24' // amber
   },
   [WeaponType.BURST_RIFLE]: {
@@ -108,7 +124,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 900,
     accuracy: 0.02,
     magSize: 30,
+    maxReserve: 120,
     reloadTime: 2000,
+    noise: 1000,
     color: '#fcd34d' // yellow
   },
   [WeaponType.LMG]: {
@@ -120,7 +138,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 1000,
     accuracy: 0.12,
     magSize: 100,
+    maxReserve: 200,
     reloadTime: 4500,
+    noise: 1200,
     color: '#ea580c' // orange
   },
   [WeaponType.DMR]: {
@@ -132,7 +152,9 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 1200,
     accuracy: 0.01,
     magSize: 20,
+    maxReserve: 60,
     reloadTime: 2500,
+    noise: 1100,
     color: '#10b981' // green tracer
   },
   [WeaponType.SNIPER]: {
@@ -144,11 +166,67 @@ export const WEAPONS: Record<WeaponType, WeaponStats> = {
     range: 1800,
     accuracy: 0.0,
     magSize: 5,
+    maxReserve: 20,
     reloadTime: 3000,
+    noise: 1500,
     color: '#f87171' // red
   }
 };
 
+// Battle Royale circle: starts at ZONE_START_RADIUS of the map width and closes phase by phase
+export const ZONE_START_RADIUS = 0.8;
+export const ZONE_SCHEDULE: ZonePhase[] = [
+  { waitMs: 30000, shrinkMs: 90000, endRadius: 0.5, damagePerTick: 0.5 },
+  { waitMs: 30000, shrinkMs: 60000, endRadius: 0.28, damagePerTick: 1 },
+  { waitMs: 25000, shrinkMs: 40000, endRadius: 0.14, damagePerTick: 1.5 },
+  { waitMs: 20000, shrinkMs: 30000, endRadius: 0.06, damagePerTick: 2.5 },
+  { waitMs: 15000, shrinkMs: 20000, endRadius: 0, damagePerTick: 4 }
+];
+
+// Weapons each bot personality picks from
+export const BOT_LOADOUTS: Record<BotPersonality, WeaponType[]> = {
+  RUSHER: [WeaponType.SMG, WeaponType.PDW, WeaponType.SHOTGUN, WeaponType.AUTO_SHOTGUN],
+  MARKSMAN: [WeaponType.DMR, WeaponType.SNIPER, WeaponType.RIFLE],
+  SUPPORT: [WeaponType.LMG, WeaponType.RIFLE, WeaponType.BURST_RIFLE],
+  RIFLEMAN: [WeaponType.RIFLE, WeaponType.BURST_RIFLE, WeaponType.SMG]
+};
+
+export const BOT_CALLSIGNS = [
+  'VIPER', 'HAVOC', 'GHOST', 'NOMAD', 'RAZOR', 'SABER', 'ONYX', 'REAPER', 'FALCON', 'BISHOP',
+  'TALON', 'COBRA', 'DRIFTER', 'HUSK', 'JACKAL', 'KODIAK', 'LANCER', 'MAVERICK', 'NOVA', 'ORACLE',
+  'PHANTOM', 'QUILL', 'RANGER', 'SPECTER', 'TEMPEST', 'URSA', 'VANDAL', 'WARDEN', 'XENON', 'YANKEE',
+  'ZULU', 'ANVIL', 'BLITZ', 'CINDER', 'DYNAMO', 'EMBER', 'FROST', 'GRIZZLY', 'HATCHET', 'IRONSIDE'
+];
+
+// Lowest to highest; harder difficulties field more senior bots
+export const BOT_RANKS = ['PVT', 'CPL', 'SGT', 'SSG', 'LT', 'CPT', 'MAJ'];
+
+export const MAX_ARMOR = 150; // Three plates
+
+// Pickup pads (TDM, FFA, Domination)
+export const PICKUPS: Record<PickupType, PickupStats> = {
+  AMMO: { name: 'Ammo Box', label: 'AMMO', color: '#facc15', respawnMs: 15000, amount: 0 },
+  HEALTH: { name: 'Health Pack', label: '+', color: '#ef4444', respawnMs: 20000, amount: 50 },
+  ARMOR: { name: 'Armor', label: 'ARM', color: '#38bdf8', respawnMs: 25000, amount: 50 },
+  DAMAGE_BOOST: { name: 'Double Damage', label: '2X', color: '#a855f7', respawnMs: 60000, amount: 2, durationMs: 15000 },
+  SPEED_BOOST: { name: 'Speed Boost', label: 'SPD', color: '#22d3ee', respawnMs: 45000, amount: 1.3, durationMs: 15000 }
+};
+
+// Battle Royale healing items
+export const CONSUMABLES: Record<ConsumableType, ConsumableStats> = {
+  MEDKIT: { name: 'Medkit', useMs: 4000, amount: 100, maxCarried: 3, color: '#ef4444' },
+  PLATE: { name: 'Armor Plate', useMs: 1500, amount: 50, maxCarried: 5, color: '#38bdf8' }
+};
+
+// Battle Royale loot quality. Common is the stock weapon.
+export const RARITY_TIERS: Record<Rarity, RarityTier> = {
+  [Rarity.COMMON]: { name: 'Common', color: '#9ca3af', damageMult: 1, accuracyMult: 1, magMult: 1, reloadMult: 1, weight: 50 },
+  [Rarity.UNCOMMON]: { name: 'Uncommon', color: '#22c55e', damageMult: 1.05, accuracyMult: 0.9, magMult: 1.1, reloadMult: 0.95, weight: 28 },
+  [Rarity.RARE]: { name: 'Rare', color: '#3b82f6', damageMult: 1.1, accuracyMult: 0.8, magMult: 1.2, reloadMult: 0.9, weight: 14 },
+  [Rarity.EPIC]: { name: 'Epic', color: '#a855f7', damageMult: 1.15, accuracyMult: 0.7, magMult: 1.35, reloadMult: 0.85, weight: 6 },
+  [Rarity.LEGENDARY]: { name: 'Legendary', color: '#f59e0b', damageMult: 1.25, accuracyMult: 0.6, magMult: 1.5, reloadMult: 0.75, weight: 2 }
+};
+
 export const GUN_GAME_ORDER = [
   WeaponType.PISTOL,
   WeaponType.SMG,
@@ -196,9 +274,10 @@ export const OPERATORS: Operator[] = [
     name: 'Ghost',
     color: '#4b5563', // gray-600
     description: 'Stealth operations specialist.',
-    bonus: 'Speed +5%',
+    bonus: 'Speed +5% | Noise -50%',
     speedMult: 1.05,
-    healthMult: 1.0
+    healthMult: 1.0,
+    noiseMult: 0.5
   },
   {
     id: 'ronin',
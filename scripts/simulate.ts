@@ -0,0 +1,73 @@
+
+// Headless bot-vs-bot balance run.
+//
+//   npm run simulate -- --matches 200 --mode TDM --map ALL --difficulty VETERAN --seed 1 --out balance-report.json
+//
+// Every match gets its own seed drawn from --seed, so a whole run can be reproduced
+// and any single match can be replayed from the seed listed in the report.
+import { writeFileSync } from 'fs';
+import { GameMode, MapId, Difficulty, ControlScheme, Orientation, FireMode, GameSettings, WeaponType } from '../types';
+import { runMatch, buildBalanceReport, MatchResult } from '../services/matchRunner';
+import { createRng } from '../services/random';
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+    }
+  }
+  return args;
+};
+
+const pickList = <T extends string>(value: string | undefined, all: T[], fallback: T[]): T[] => {
+  if (!value) return fallback;
+  if (value.toUpperCase() === 'ALL') return all;
+  return value.split(',').map(v => {
+    const match = all.find(a => a === v.toUpperCase());
+    if (!match) throw new Error(`Unknown value "${v}". Expected one of: ${all.join(', ')}`);
+    return match;
+  });
+};
+
+const args = parseArgs(process.argv.slice(2));
+const matchCount = parseInt(args.matches ?? '50', 10);
+const baseSeed = parseInt(args.seed ?? String(Date.now() % 4294967296), 10);
+const modes = pickList(args.mode, Object.values(GameMode).filter(m => m !== GameMode.MENU), [GameMode.TDM]);
+const maps = pickList(args.map, Object.values(MapId), [MapId.URBAN]);
+const [difficulty] = pickList(args.difficulty, Object.values(Difficulty), [Difficulty.VETERAN]);
+const outFile = args.out ?? 'balance-report.json';
+
+const settings: GameSettings = {
+  volume: 0,
+  difficulty,
+  controls: ControlScheme.PC,
+  allyCount: parseInt(args.allies ?? '4', 10),
+  enemyCount: parseInt(args.enemies ?? '5', 10),
+  botCount: parseInt(args.bots ?? '9', 10),
+  orientation: Orientation.DEFAULT,
+  fireMode: FireMode.MANUAL
+};
+
+const seeds = createRng(baseSeed);
+const results: MatchResult[] = [];
+const started = Date.now();
+
+for (let i = 0; i < matchCount; i++) {
+  const mode = modes[i % modes.length];
+  const mapId = maps[Math.floor(i / modes.length) % maps.length];
+  const seed = Math.floor(seeds() * 4294967296);
+  results.push(runMatch({ mode, mapId, seed, weapon: WeaponType.RIFLE, operatorId: 'ranger' }, settings));
+  process.stdout.write(`\rmatch ${i + 1}/${matchCount}`);
+}
+
+const report = buildBalanceReport(results);
+writeFileSync(outFile, JSON.stringify({
+  baseSeed,
+  difficulty,
+  settings,
+  report,
+  matches: results.map(({ kills, players, ...summary }) => summary)
+}, null, 2));
+
+console.log(`\n${matchCount} matches in ${((Date.now() - started) / 1000).toFixed(1)}s -> ${outFile}`);
@@ -0,0 +1,89 @@
+
+import { AdaptiveDifficulty, Difficulty, GameMode, GameState, Player, Team } from '../types';
+import { BOT_SPEED_MULT, BOT_HEALTH, DIFFICULTY_LEVEL, blendByLevel, shiftBotSkill } from './botSkill';
+
+// --- ADAPTIVE DIFFICULTY ---
+// Every so often the human's recent K/D, accuracy and the score gap are rolled into one
+// number, and the bots get a little better or a little worse: aim, speed, toughness, and
+// (read from the level elsewhere) vision and tactics. Small steps, so nobody notices a bot
+// suddenly turning into an aimbot mid-fight.
+
+const ADJUST_INTERVAL_MS = 20000;
+const MAX_STEP = 0.25; // Most the level moves in one adjustment
+const DEAD_ZONE = 0.1; // Performance this close to even leaves the bots alone
+const MIN_SHOTS = 10; // Fewer rounds than this in a window says nothing about accuracy
+const TARGET_ACCURACY = 0.3;
+const TEAM_SCORE_SWING = 30; // Score gap that counts as a full stomp in team modes
+const SOLO_KILL_SWING = 5; // Kill gap to the best bot that counts as a full stomp in FFA
+
+const WEIGHTS = { kd: 0.5, accuracy: 0.25, score: 0.25 };
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+export const createAdaptiveDifficulty = (difficulty: Difficulty): AdaptiveDifficulty => ({
+  level: DIFFICULTY_LEVEL[difficulty],
+  shots: 0,
+  hits: 0,
+  lastCheck: { kills: 0, deaths: 0, shots: 0, hits: 0 },
+  log: []
+});
+
+// The level bots are playing at right now, adaptive or not
+export const getBotLevel = (state: GameState): number =>
+  state.adaptive ? state.adaptive.level : DIFFICULTY_LEVEL[state.difficulty];
+
+// How far the human is ahead: team score in team modes, kills over the best bot in FFA
+const getScoreDelta = (state: GameState, human: Player): number => {
+  if (state.mode === GameMode.BATTLE_ROYALE) return 0;
+  if (state.mode === GameMode.FFA || state.mode === GameMode.GUN_GAME) {
+    const best = state.players.filter(p => p.isBot).reduce((max, p) => Math.max(max, p.kills), 0);
+    return human.kills - best;
+  }
+  const enemyTeam = human.team === Team.ALLIED ? Team.AXIS : Team.ALLIED;
+  return state.scores[human.team] - state.scores[enemyTeam];
+};
+
+export const updateAdaptiveDifficulty = (state: GameState, now: number, dt: number) => {
+  const adaptive = state.adaptive;
+  if (!adaptive) return;
+  if (Math.floor(now / ADJUST_INTERVAL_MS) === Math.floor((now - dt) / ADJUST_INTERVAL_MS)) return;
+  const human = state.players.find(p => !p.isBot);
+  if (!human) return;
+
+  // Only what happened since the last check counts, so the bots react to form, not history
+  const last = adaptive.lastCheck;
+  const kills = human.kills - last.kills;
+  const deaths = human.deaths - last.deaths;
+  const shots = adaptive.shots - last.shots;
+  const hits = adaptive.hits - last.hits;
+  adaptive.lastCheck = { kills: human.kills, deaths: human.deaths, shots: adaptive.shots, hits: adaptive.hits };
+
+  const accuracy = shots > 0 ? hits / shots : 0;
+  const scoreDelta = getScoreDelta(state, human);
+  const swing = state.mode === GameMode.FFA || state.mode === GameMode.GUN_GAME ? SOLO_KILL_SWING : TEAM_SCORE_SWING;
+
+  const performance =
+    WEIGHTS.kd * (kills - deaths) / (kills + deaths + 2) +
+    WEIGHTS.accuracy * (shots >= MIN_SHOTS ? clampUnit((accuracy - TARGET_ACCURACY) / TARGET_ACCURACY) : 0) +
+    WEIGHTS.score * clampUnit(scoreDelta / swing);
+  if (Math.abs(performance) < DEAD_ZONE) return;
+
+  const from = adaptive.level;
+  const to = Math.max(-1, Math.min(1, from + performance * MAX_STEP));
+  if (to === from) return;
+
+  // Speed and health scale rather than shift, so each operator keeps its edge over the others.
+  // Current health scales with the maximum, so nobody is healed or hurt by the change.
+  const speedScale = blendByLevel(to, BOT_SPEED_MULT) / blendByLevel(from, BOT_SPEED_MULT);
+  const healthScale = blendByLevel(to, BOT_HEALTH) / blendByLevel(from, BOT_HEALTH);
+  state.players.forEach(p => {
+    if (!p.isBot) return;
+    if (p.skill) p.skill = shiftBotSkill(p.skill, from, to);
+    p.speed *= speedScale;
+    p.maxHealth *= healthScale;
+    p.health *= healthScale;
+  });
+
+  adaptive.level = to;
+  adaptive.log.push({ time: Math.round(now), level: to, kd: kills / Math.max(1, deaths), accuracy, scoreDelta });
+};
@@ -0,0 +1,106 @@
+
+import { AmmoLoot, GameMode, GameState, Player, WeaponType } from '../types';
+import { WEAPONS } from '../constants';
+import { dist } from './geometry';
+
+// --- AMMO RESERVES ---
+// Besides the magazine in the gun, everyone carries spare rounds for each weapon they have.
+// Reloads draw from the spares; once both are gone the gun is dry. The fallen leave their
+// spares behind in a box for anyone carrying the same guns.
+
+const AMMO_REACH = 20; // Beyond touching the box
+const RESPAWN_MODE_BOX_MS = 30000; // Modes with respawns would otherwise fill up with boxes
+
+export const getReserve = (p: Player, weapon: WeaponType = p.weapon) => p.reserve[weapon] ?? 0;
+
+// The guns `p` has on them, knife aside
+export const getCarriedWeapons = (p: Player): WeaponType[] => {
+  const weapons = p.inventory ? p.inventory.slots.map(s => s?.weapon) : [p.weapon];
+  return weapons.filter((w): w is WeaponType => !!w && w !== WeaponType.KNIFE);
+};
+
+// Full spares for each of `weapons`
+export const createReserve = (weapons: WeaponType[]): Player['reserve'] => {
+  const reserve: Player['reserve'] = {};
+  weapons.forEach(w => { reserve[w] = WEAPONS[w].maxReserve; });
+  return reserve;
+};
+
+// Adds up to `rounds` spares for `weapon` and returns how many fitted
+export const addReserve = (p: Player, weapon: WeaponType, rounds: number) => {
+  const added = Math.max(0, Math.min(rounds, WEAPONS[weapon].maxReserve - getReserve(p, weapon)));
+  if (added > 0) p.reserve[weapon] = getReserve(p, weapon) + added;
+  return added;
+};
+
+// Share of the spares `p` could still carry for their guns, 0 (full) to 1 (none at all)
+export const getReserveShortfall = (p: Player) => {
+  const weapons = getCarriedWeapons(p);
+  const max = weapons.reduce((sum, w) => sum + WEAPONS[w].maxReserve, 0);
+  return max > 0 ? 1 - weapons.reduce((sum, w) => sum + getReserve(p, w), 0) / max : 0;
+};
+
+export const restockReserve = (p: Player) => {
+  getCarriedWeapons(p).forEach(w => addReserve(p, w, WEAPONS[w].maxReserve));
+};
+
+export const canReload = (p: Player, magSize: number) =>
+  p.weapon !== WeaponType.KNIFE && !p.isReloading && p.ammo < magSize && getReserve(p) > 0;
+
+// Tops the magazine up from the spares
+export const finishReload = (p: Player, magSize: number) => {
+  const rounds = Math.min(magSize - p.ammo, getReserve(p));
+  p.ammo += rounds;
+  p.reserve[p.weapon] = getReserve(p) - rounds;
+};
+
+// Nothing left to fire: an empty magazine and no spares. The knife never runs dry.
+export const isDry = (p: Player) => p.weapon !== WeaponType.KNIFE && p.ammo <= 0 && getReserve(p) <= 0;
+
+// Leaves the spares of an eliminated player on the ground. Outside Battle Royale the guns
+// don't drop, so whatever was loaded goes into the box too.
+export const dropAmmo = (state: GameState, p: Player) => {
+  const rounds: Partial<Record<WeaponType, number>> = { ...p.reserve };
+  const isBR = state.mode === GameMode.BATTLE_ROYALE;
+  if (!isBR) {
+    p.inventory?.slots.forEach(slot => {
+      if (slot && slot.weapon !== p.weapon) rounds[slot.weapon] = (rounds[slot.weapon] ?? 0) + slot.ammo;
+    });
+    if (p.weapon !== WeaponType.KNIFE) rounds[p.weapon] = (rounds[p.weapon] ?? 0) + p.ammo;
+  }
+  p.reserve = {};
+  if (!Object.values(rounds).some(n => n! > 0)) return;
+  state.loot.push({
+    id: `ammo-${p.id}-${state.time}`,
+    pos: { ...p.pos },
+    radius: 10,
+    active: true,
+    kind: 'AMMO',
+    rounds,
+    expiresAt: isBR ? undefined : state.time + RESPAWN_MODE_BOX_MS
+  });
+};
+
+// Whether `loot` holds spares `p` has room for
+export const wantsAmmo = (p: Player, loot: AmmoLoot) =>
+  getCarriedWeapons(p).some(w => (loot.rounds[w] ?? 0) > 0 && getReserve(p, w) < WEAPONS[w].maxReserve);
+
+// Takes what fits from any box underfoot. A box with nothing left for anyone goes away.
+export const collectAmmo = (state: GameState, p: Player) => {
+  let collected = false;
+  for (const l of state.loot) {
+    if (!l.active || l.kind !== 'AMMO' || dist(p.pos, l.pos) >= p.radius + l.radius + AMMO_REACH || !wantsAmmo(p, l)) continue;
+    getCarriedWeapons(p).forEach(w => {
+      l.rounds[w] = (l.rounds[w] ?? 0) - addReserve(p, w, l.rounds[w] ?? 0);
+    });
+    if (!Object.values(l.rounds).some(n => n! > 0)) l.active = false;
+    collected = true;
+  }
+  return collected;
+};
+
+// Respawn modes: clears away boxes that have lain around too long, and forgets emptied ones
+export const expireAmmo = (state: GameState, now: number) => {
+  if (state.mode === GameMode.BATTLE_ROYALE) return;
+  state.loot = state.loot.filter(l => l.active && !(l.kind === 'AMMO' && l.expiresAt !== undefined && now >= l.expiresAt));
+};
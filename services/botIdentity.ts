@@ -0,0 +1,64 @@
+
+import { BotPersonality, Difficulty, Operator, Player, WeaponType } from '../types';
+import { OPERATORS, BOT_LOADOUTS, BOT_CALLSIGNS, BOT_RANKS } from '../constants';
+import { Rng } from './random';
+
+// --- BOT IDENTITY ---
+// Each bot rolls an operator like a human picks one, a personality that suits the operator
+// (and decides its weapon), and a callsign and rank to show in the kill feed and reports.
+
+export interface BotIdentity {
+  operator: Operator;
+  personality: BotPersonality;
+  weapon: WeaponType;
+  callsign: string;
+  rank: string;
+}
+
+// Personalities each operator leans toward; anyone missing here rolls from all of them
+const OPERATOR_PERSONALITIES: Record<string, BotPersonality[]> = {
+  ranger: ['RIFLEMAN', 'RIFLEMAN', 'SUPPORT', 'MARKSMAN'],
+  vanguard: ['RUSHER', 'RUSHER', 'RIFLEMAN'],
+  heavy: ['SUPPORT', 'SUPPORT', 'RUSHER'],
+  ghost: ['MARKSMAN', 'MARKSMAN', 'RIFLEMAN'],
+  ronin: ['RUSHER'],
+  bulldozer: ['RUSHER', 'SUPPORT'],
+  wraith: ['RUSHER', 'RIFLEMAN'],
+  sentinel: ['MARKSMAN', 'SUPPORT', 'RIFLEMAN'],
+  striker: ['RUSHER', 'RIFLEMAN'],
+  titan: ['SUPPORT']
+};
+
+const ALL_PERSONALITIES = Object.keys(BOT_LOADOUTS) as BotPersonality[];
+
+// Window into BOT_RANKS each difficulty draws from
+const RANK_RANGE: Record<Difficulty, [number, number]> = {
+  [Difficulty.RECRUIT]: [0, 3],
+  [Difficulty.VETERAN]: [1, 5],
+  [Difficulty.ELITE]: [3, 6]
+};
+
+const pick = <T>(items: T[], rng: Rng): T => items[Math.floor(rng() * items.length)];
+
+// `taken` holds callsigns already in the match and is updated, so nobody shares a name
+export const rollBotIdentity = (difficulty: Difficulty, rng: Rng, taken: Set<string>): BotIdentity => {
+  const operator = pick(OPERATORS, rng);
+  const personality = pick(OPERATOR_PERSONALITIES[operator.id] ?? ALL_PERSONALITIES, rng);
+  const weapon = pick(BOT_LOADOUTS[personality], rng);
+
+  const free = BOT_CALLSIGNS.filter(c => !taken.has(c));
+  // Big lobbies run out of names; number the repeats
+  const callsign = free.length > 0 ? pick(free, rng) : `${pick(BOT_CALLSIGNS, rng)}-${taken.size + 1}`;
+  taken.add(callsign);
+
+  const [low, high] = RANK_RANGE[difficulty];
+  const rank = BOT_RANKS[low + Math.floor(rng() * (high - low + 1))];
+
+  return { operator, personality, weapon, callsign, rank };
+};
+
+// How a player is named in the kill feed and match reports
+export const getDisplayName = (p: Player): string => {
+  if (!p.isBot) return 'YOU';
+  return p.callsign ? `${p.rank ? p.rank + ' ' : ''}${p.callsign}` : p.id.toUpperCase();
+};
@@ -0,0 +1,132 @@
+
+import { BotSkill, Difficulty, Player, Vector2 } from '../types';
+import { BULLET_SPEED, TICK_RATE } from '../constants';
+import { Rng } from './random';
+
+// --- BOT MARKSMANSHIP ---
+// Bots see a target, take a moment to react, then bring their aim in: a first rough offset that
+// settles out, a little wobble that never quite goes away, and (for the good ones) leading
+// targets that are on the move.
+
+export const BOT_SKILL_PROFILES: Record<Difficulty, BotSkill> = {
+  [Difficulty.RECRUIT]: { reactionMs: 650, settleMs: 900, initialError: 0.5, trackingError: 0.12, leadSkill: 0, spreadMult: 2.0 },
+  [Difficulty.VETERAN]: { reactionMs: 350, settleMs: 500, initialError: 0.35, trackingError: 0.06, leadSkill: 0.5, spreadMult: 1.0 },
+  [Difficulty.ELITE]: { reactionMs: 180, settleMs: 250, initialError: 0.2, trackingError: 0.025, leadSkill: 0.9, spreadMult: 0.5 }
+};
+
+// Movement, toughness and eyesight scale with difficulty too
+export const BOT_SPEED_MULT: Record<Difficulty, number> = {
+  [Difficulty.RECRUIT]: 0.7,
+  [Difficulty.VETERAN]: 0.9,
+  [Difficulty.ELITE]: 1.0
+};
+
+export const BOT_HEALTH: Record<Difficulty, number> = {
+  [Difficulty.RECRUIT]: 80,
+  [Difficulty.VETERAN]: 100,
+  [Difficulty.ELITE]: 120
+};
+
+export const BOT_VISION_RANGE: Record<Difficulty, number> = {
+  [Difficulty.RECRUIT]: 400,
+  [Difficulty.VETERAN]: 500,
+  [Difficulty.ELITE]: 700
+};
+
+// Difficulties as points on one scale, so adaptive difficulty can sit anywhere in between
+export const DIFFICULTY_LEVEL: Record<Difficulty, number> = {
+  [Difficulty.RECRUIT]: -1,
+  [Difficulty.VETERAN]: 0,
+  [Difficulty.ELITE]: 1
+};
+
+const SKILL_VARIANCE = 0.15; // Each bot lands within +/-15% of its difficulty's profile
+const TARGET_MEMORY_MS = 1000; // Losing sight for less than this doesn't reset reaction and settle
+const WOBBLE_PERIOD_MS = 400;
+const BULLET_SPEED_PER_MS = BULLET_SPEED * TICK_RATE / 1000;
+
+export const rollBotSkill = (difficulty: Difficulty, rng: Rng): BotSkill => {
+  const base = BOT_SKILL_PROFILES[difficulty];
+  const vary = (value: number) => value * (1 + (rng() * 2 - 1) * SKILL_VARIANCE);
+  return {
+    reactionMs: vary(base.reactionMs),
+    settleMs: vary(base.settleMs),
+    initialError: vary(base.initialError),
+    trackingError: vary(base.trackingError),
+    leadSkill: Math.min(1, vary(base.leadSkill)),
+    spreadMult: vary(base.spreadMult)
+  };
+};
+
+// Reads a per-difficulty table at a level between -1 and 1, interpolating between neighbours
+export const blendByLevel = (level: number, table: Record<Difficulty, number>): number => {
+  const clamped = Math.max(-1, Math.min(1, level));
+  return clamped < 0
+    ? table[Difficulty.VETERAN] + (table[Difficulty.RECRUIT] - table[Difficulty.VETERAN]) * -clamped
+    : table[Difficulty.VETERAN] + (table[Difficulty.ELITE] - table[Difficulty.VETERAN]) * clamped;
+};
+
+const skillField = (field: keyof BotSkill) => ({
+  [Difficulty.RECRUIT]: BOT_SKILL_PROFILES[Difficulty.RECRUIT][field],
+  [Difficulty.VETERAN]: BOT_SKILL_PROFILES[Difficulty.VETERAN][field],
+  [Difficulty.ELITE]: BOT_SKILL_PROFILES[Difficulty.ELITE][field]
+});
+
+// Moves a rolled skill from one level to another. The shift is additive so each bot keeps
+// its own edge over (or gap under) the profile.
+export const shiftBotSkill = (skill: BotSkill, from: number, to: number): BotSkill => {
+  const shift = (field: keyof BotSkill, min: number, max: number = Infinity) => {
+    const table = skillField(field);
+    return Math.max(min, Math.min(max, skill[field] + blendByLevel(to, table) - blendByLevel(from, table)));
+  };
+  return {
+    reactionMs: shift('reactionMs', 50),
+    settleMs: shift('settleMs', 50),
+    initialError: shift('initialError', 0),
+    trackingError: shift('trackingError', 0),
+    leadSkill: shift('leadSkill', 0, 1),
+    spreadMult: shift('spreadMult', 0.1)
+  };
+};
+
+// Where a bullet fired now would meet a target moving at constant velocity, or its current
+// position if it can't be caught
+const interceptPoint = (from: Vector2, target: Player): Vector2 => {
+  const v = target.velocity ?? { x: 0, y: 0 };
+  const rx = target.pos.x - from.x;
+  const ry = target.pos.y - from.y;
+  const a = v.x * v.x + v.y * v.y - BULLET_SPEED_PER_MS * BULLET_SPEED_PER_MS;
+  const b = 2 * (rx * v.x + ry * v.y);
+  const c = rx * rx + ry * ry;
+  const disc = b * b - 4 * a * c;
+  if (a >= 0 || disc < 0) return target.pos; // Target as fast as the bullet
+  const t = (-b - Math.sqrt(disc)) / (2 * a);
+  return t > 0 ? { x: target.pos.x + v.x * t, y: target.pos.y + v.y * t } : target.pos;
+};
+
+// Turns the bot toward `target` the way its skill allows. True once it has reacted and may shoot.
+export const aimAtTarget = (bot: Player, target: Player, now: number, rng: Rng): boolean => {
+  const skill = bot.skill;
+  if (!skill) {
+    bot.angle = Math.atan2(target.pos.y - bot.pos.y, target.pos.x - bot.pos.x);
+    return true;
+  }
+
+  let aim = bot.aim;
+  if (!aim || aim.targetId !== target.id || now - aim.lastSeen > TARGET_MEMORY_MS) {
+    aim = { targetId: target.id, acquiredAt: now, lastSeen: now, offset: (rng() * 2 - 1) * skill.initialError, phase: rng() * Math.PI * 2 };
+    bot.aim = aim;
+  }
+  aim.lastSeen = now;
+
+  const ideal = interceptPoint(bot.pos, target);
+  const aimPoint = {
+    x: target.pos.x + (ideal.x - target.pos.x) * skill.leadSkill,
+    y: target.pos.y + (ideal.y - target.pos.y) * skill.leadSkill
+  };
+  const settle = Math.min(1, (now - aim.acquiredAt) / skill.settleMs);
+  const wobble = Math.sin(now / WOBBLE_PERIOD_MS * Math.PI * 2 + aim.phase) * skill.trackingError;
+  bot.angle = Math.atan2(aimPoint.y - bot.pos.y, aimPoint.x - bot.pos.x) + aim.offset * (1 - settle) + wobble;
+
+  return now - aim.acquiredAt >= skill.reactionMs;
+};
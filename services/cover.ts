@@ -0,0 +1,77 @@
+
+import { GameState, Obstacle, Vector2 } from '../types';
+import { PLAYER_RADIUS } from '../constants';
+import { dist, normalize, segmentRectIntersection } from './geometry';
+import { getObstacleGrid } from './spatialGrid';
+import { isStandable } from './navigation';
+
+// --- COVER ---
+// Picks a spot behind a cover obstacle, as seen from a threat, plus a spot just beside it
+// to lean out and shoot from.
+
+export interface CoverSpot {
+  obstacle: Obstacle;
+  spot: Vector2;
+  peek: Vector2;
+}
+
+// Bullets fly over half cover, so it only hides the bot; full cover actually stops rounds
+const COVER_VALUE: Partial<Record<Obstacle['type'], number>> = {
+  COVER_FULL: 2,
+  COVER_HALF: 1
+};
+
+const GAP = 6; // Breathing room between the bot and the cover it hides behind
+
+const centreOf = (o: Obstacle): Vector2 => ({ x: o.x + o.w / 2, y: o.y + o.h / 2 });
+
+// How far the rect reaches from its centre along a unit direction
+const extentAlong = (o: Obstacle, d: Vector2) => Math.abs(d.x) * o.w / 2 + Math.abs(d.y) * o.h / 2;
+
+// True while the obstacle still sits between the threat and the spot
+export const shieldsFrom = (obstacle: Obstacle, spot: Vector2, threat: Vector2) =>
+  segmentRectIntersection(threat, spot, obstacle) !== null;
+
+export const findCoverSpot = (state: GameState, from: Vector2, threat: Vector2, searchRadius: number): CoverSpot | null => {
+  const inBounds = (p: Vector2) => p.x > 0 && p.y > 0 && p.x < state.mapWidth && p.y < state.mapHeight;
+  let best: CoverSpot | null = null;
+  let bestScore = -Infinity;
+
+  for (const o of getObstacleGrid(state.obstacles).queryRadius(from, searchRadius)) {
+    const value = COVER_VALUE[o.type];
+    if (!value) continue;
+
+    const centre = centreOf(o);
+    const away = normalize({ x: centre.x - threat.x, y: centre.y - threat.y });
+    if (away.x === 0 && away.y === 0) continue;
+
+    const spot = {
+      x: centre.x + away.x * (extentAlong(o, away) + PLAYER_RADIUS + GAP),
+      y: centre.y + away.y * (extentAlong(o, away) + PLAYER_RADIUS + GAP)
+    };
+    const travel = dist(from, spot);
+    if (travel > searchRadius || !inBounds(spot) || !isStandable(state, spot) || !shieldsFrom(o, spot, threat)) continue;
+
+    // Step sideways past the edge, whichever side has a line to the threat
+    const side = { x: -away.y, y: away.x };
+    const reach = extentAlong(o, side) + PLAYER_RADIUS + GAP;
+    let peek: Vector2 | null = null;
+    for (const sign of [1, -1]) {
+      const candidate = { x: spot.x + side.x * reach * sign, y: spot.y + side.y * reach * sign };
+      if (inBounds(candidate) && isStandable(state, candidate) && !shieldsFrom(o, candidate, threat)) {
+        peek = candidate;
+        break;
+      }
+    }
+    if (!peek) continue;
+
+    // Prefer sturdier cover that is close by and not right under the threat's nose
+    let score = value - travel / searchRadius;
+    if (dist(spot, threat) < 150) score -= 1;
+    if (score > bestScore) {
+      bestScore = score;
+      best = { obstacle: o, spot, peek };
+    }
+  }
+  return best;
+};
@@ -0,0 +1,123 @@
+
+import { Deployment, GameState, Player, PlayerDrop, Vector2 } from '../types';
+import { dist } from './geometry';
+import { isStandable } from './navigation';
+import { Rng } from './random';
+
+// --- BATTLE ROYALE DEPLOYMENT ---
+// Everyone starts on a plane crossing the map. Each player leaves it where the flight path
+// passes closest to their landing spot, then glides down and can't fire until they land.
+
+export const FLIGHT_MS = 20000;
+export const DESCENT_MS = 4000;
+
+const LOOT_RADIUS = 300; // Loot this close to a building makes it a better place to land
+const LANDING_TRIES = 6;
+const SNAP_STEP = 20; // Search spacing when a picked spot is inside something solid
+const SNAP_RANGE = 200;
+
+type LandingMap = Pick<GameState, 'buildings' | 'loot' | 'obstacles' | 'mapWidth' | 'mapHeight'>;
+
+const lerp = (a: Vector2, b: Vector2, t: number): Vector2 => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Distance along `dir` from `origin` (inside the map) to the map edge
+const toEdge = (origin: Vector2, dir: Vector2, mapWidth: number, mapHeight: number) => {
+  const tx = dir.x > 0 ? (mapWidth - origin.x) / dir.x : dir.x < 0 ? -origin.x / dir.x : Infinity;
+  const ty = dir.y > 0 ? (mapHeight - origin.y) / dir.y : dir.y < 0 ? -origin.y / dir.y : Infinity;
+  return Math.min(tx, ty);
+};
+
+// A straight run from edge to edge through the middle third of the map, so nowhere is far off it
+export const createDeployment = (mapWidth: number, mapHeight: number, rng: Rng): Deployment => {
+  const angle = rng() * Math.PI * 2;
+  const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+  const centre = { x: mapWidth * (1 / 3 + rng() / 3), y: mapHeight * (1 / 3 + rng() / 3) };
+  const back = toEdge(centre, { x: -dir.x, y: -dir.y }, mapWidth, mapHeight);
+  const ahead = toEdge(centre, dir, mapWidth, mapHeight);
+  return {
+    from: { x: centre.x - dir.x * back, y: centre.y - dir.y * back },
+    to: { x: centre.x + dir.x * ahead, y: centre.y + dir.y * ahead },
+    flightMs: FLIGHT_MS
+  };
+};
+
+export const getPlanePos = (deployment: Deployment, now: number): Vector2 =>
+  lerp(deployment.from, deployment.to, Math.max(0, Math.min(1, now / deployment.flightMs)));
+
+// Leave the plane where it passes closest to `landing`, but never before `now`
+export const planDrop = (deployment: Deployment, landing: Vector2, now: number): PlayerDrop => {
+  const { from, to } = deployment;
+  const path = { x: to.x - from.x, y: to.y - from.y };
+  const lengthSq = path.x * path.x + path.y * path.y || 1;
+  const t = Math.max(0, Math.min(1, ((landing.x - from.x) * path.x + (landing.y - from.y) * path.y) / lengthSq));
+  const jumpAt = Math.max(now, t * deployment.flightMs);
+  return { landing, jumpAt, jumpPos: getPlanePos(deployment, jumpAt) };
+};
+
+// The nearest spot to `pos` a player can stand on
+export const snapLanding = (map: LandingMap, pos: Vector2): Vector2 => {
+  const clamped = { x: Math.max(0, Math.min(map.mapWidth, pos.x)), y: Math.max(0, Math.min(map.mapHeight, pos.y)) };
+  if (isStandable(map, clamped)) return clamped;
+  for (let r = SNAP_STEP; r <= SNAP_RANGE; r += SNAP_STEP) {
+    for (let i = 0; i < 8; i++) {
+      const angle = (i / 8) * Math.PI * 2;
+      const p = { x: clamped.x + Math.cos(angle) * r, y: clamped.y + Math.sin(angle) * r };
+      if (p.x >= 0 && p.y >= 0 && p.x <= map.mapWidth && p.y <= map.mapHeight && isStandable(map, p)) return p;
+    }
+  }
+  return clamped;
+};
+
+// Bots favour buildings, and buildings with loot in or around them most of all
+export const pickLandingSpot = (map: LandingMap, rng: Rng): Vector2 => {
+  if (map.buildings.length === 0) return snapLanding(map, { x: rng() * map.mapWidth, y: rng() * map.mapHeight });
+
+  const weights = map.buildings.map(b => {
+    const centre = { x: b.x + b.w / 2, y: b.y + b.h / 2 };
+    return 1 + map.loot.filter(l => l.active && dist(l.pos, centre) < LOOT_RADIUS + Math.max(b.w, b.h) / 2).length;
+  });
+  let roll = rng() * weights.reduce((sum, w) => sum + w, 0);
+  let index = 0;
+  while (index < weights.length - 1 && roll >= weights[index]) roll -= weights[index++];
+  const b = map.buildings[index];
+
+  // Somewhere on the floor, clear of the walls
+  for (let i = 0; i < LANDING_TRIES; i++) {
+    const spot = { x: b.x + b.w * (0.2 + rng() * 0.6), y: b.y + b.h * (0.2 + rng() * 0.6) };
+    if (isStandable(map, spot)) return spot;
+  }
+  return snapLanding(map, { x: b.x + b.w / 2, y: b.y + b.h / 2 });
+};
+
+export const isAirborne = (p: Player) => !!p.drop;
+
+// Carries riders with the plane and glides jumpers down. `landing` is the human's pick this tick.
+export const updateDeployment = (state: GameState, now: number, landing: Vector2 | null | undefined, rng: Rng) => {
+  const deployment = state.deployment;
+  if (!deployment) return;
+
+  const human = state.players.find(p => !p.isBot);
+  if (landing && human?.drop && now < human.drop.jumpAt) {
+    human.drop = planDrop(deployment, snapLanding(state, landing), now);
+  }
+
+  state.players.forEach(p => {
+    const drop = p.drop;
+    if (!drop) return;
+    if (now < drop.jumpAt) {
+      p.pos = getPlanePos(deployment, now);
+      return;
+    }
+    // Still undecided when the plane reaches the edge: land somewhere sensible
+    if (!drop.landing) drop.landing = pickLandingSpot(state, rng);
+    const t = (now - drop.jumpAt) / DESCENT_MS;
+    if (t >= 1) {
+      p.pos = { ...drop.landing };
+      p.drop = null;
+    } else {
+      p.pos = lerp(drop.jumpPos, drop.landing, t);
+    }
+  });
+
+  if (!state.players.some(p => p.active && p.drop)) state.deployment = null;
+};
@@ -1,33 +1,63 @@
 
 import { 
   GameState, Player, Bullet, Vector2, Team, WeaponType, 
-  GameMode, ControlPoint, Obstacle, GameSetup, GameSettings, Difficulty, LootItem, Zone, FireMode 
+  GameMode, ControlPoint, Obstacle, GameSetup, GameSettings, Difficulty, LootItem, Zone, FireMode, PlayerInput, Noise, Deployment 
 } from '../types';
 import { 
   WORLD_WIDTH, WORLD_HEIGHT, PLAYER_RADIUS, PLAYER_SPEED, SPRINT_MULTIPLIER,
-  WEAPONS, TEAM_COLORS, CANVAS_WIDTH, CANVAS_HEIGHT, OPERATORS, GUN_GAME_ORDER 
+  WEAPONS, TEAM_COLORS, OPERATORS, GUN_GAME_ORDER, TICK_RATE, BULLET_SPEED 
 } from '../constants';
 import { generateMap, getSpawnPoint } from './mapGenerator';
-import { soundManager } from './soundManager';
+import { nextRandom, RngHolder } from './random';
+import { dist, checkRectCollide, segmentRectIntersection, segmentCircleIntersection } from './geometry';
+import { SpatialGrid, getObstacleGrid, createPlayerGrid, getPlayerBounds, getSegmentBounds, checkWallBetween } from './spatialGrid';
+import { findPath } from './navigation';
+import { findCoverSpot, shieldsFrom } from './cover';
+import { rollBotSkill, aimAtTarget, blendByLevel, BOT_SPEED_MULT, BOT_HEALTH, BOT_VISION_RANGE } from './botSkill';
+import { rollBotIdentity, getDisplayName } from './botIdentity';
+import { updateRespawns, isSpawnProtected, hasRespawns } from './respawn';
+import { updateSpawnFlip, getSpawnSide } from './spawnSelection';
+import { createZone, updateZone } from './zone';
+import { createDeployment, planDrop, pickLandingSpot, updateDeployment, isAirborne } from './deployment';
+import { updateSupplyDrops, getSupplyDropTarget, FIRST_SUPPLY_DROP_MS } from './supplyDrop';
+import { createInventory, createLoadout, hasLoadout, getWeaponStats, canUseInventory, selectSlot, cycleSlot, getArmedSlot, findLootInReach, getUpgradeSlot, pickUpLoot, dropInventory, collectConsumables, wantsLoot } from './inventory';
+import { createReserve, canReload, finishReload, isDry, dropAmmo, collectAmmo, expireAmmo } from './ammo';
+import { updatePickups, getPickupTarget, getBoostMult } from './pickups';
+import { takeDamage, updateRegen, startItemUse, updateItemUse, canUseItem, USE_SPEED_MULT } from './health';
+import { createAdaptiveDifficulty, getBotLevel, updateAdaptiveDifficulty } from './adaptiveDifficulty';
+import { updateSquads, getSquadTarget, getHelpResponders, applySquadCommand, updateSquadOrder, getOrderTarget } from './squad';
 
-// --- MATH HELPERS ---
-const dist = (v1: Vector2, v2: Vector2) => Math.sqrt((v1.x - v2.x)**2 + (v1.y - v2.y)**2);
-const normalize = (v: Vector2) => {
-  const d = Math.sqrt(v.x**2 + v.y**2);
-  return d === 0 ? {x:0, y:0} : {x: v.x/d, y: v.y/d};
+// Speeds, rates and per-frame chances below are tuned for one 60Hz frame.
+// Scale them by how many of those frames `dt` covers so the sim is frame-rate independent.
+const REFERENCE_FRAME_MS = 1000 / TICK_RATE;
+const getTimeScale = (dt: number) => dt / REFERENCE_FRAME_MS;
+
+// The engine never touches audio directly; the caller plays these after each tick
+const playSound = (state: GameState, key: string) => {
+  state.events.push({ type: 'SOUND', key });
 };
-const checkRectCollide = (circle: {x: number, y: number, r: number}, rect: Obstacle) => {
-  const testX = circle.x < rect.x ? rect.x : circle.x > rect.x + rect.w ? rect.x + rect.w : circle.x;
-  const testY = circle.y < rect.y ? rect.y : circle.y > rect.y + rect.h ? rect.y + rect.h : circle.y;
-  const distX = circle.x - testX;
-  const distY = circle.y - testY;
-  return (distX*distX + distY*distY) <= (circle.r*circle.r);
+
+// --- NOISE ---
+const NOISE_MEMORY_MS = 250;
+const FOOTSTEP_NOISE = 350; // Sprinting only; walking is quiet
+
+// Something bots can hear. One live noise per source, so a sprint or a full-auto burst doesn't pile up.
+const emitNoise = (state: GameState, source: Player, radius: number) => {
+  const operator = OPERATORS.find(op => op.id === source.operatorId);
+  const noise = { sourceId: source.id, team: source.team, pos: { ...source.pos }, radius: radius * (operator?.noiseMult ?? 1), time: state.time };
+  const existing = state.noises.findIndex(n => n.sourceId === source.id);
+  if (existing === -1) state.noises.push(noise);
+  else if (state.noises[existing].time < state.time || noise.radius > state.noises[existing].radius) state.noises[existing] = noise;
 };
 
 // --- INITIAL STATE ---
 export const createInitialState = (setup: GameSetup, settings: GameSettings): GameState => {
+  // Every roll below (and later in updateGame) comes from the match seed
+  const rngHolder: RngHolder = { rngState: setup.seed >>> 0 };
+  const rng = () => nextRandom(rngHolder);
+
   // GENERATE MAP BASED ON SELECTION
-  const mapData = generateMap(setup.mapId, setup.mode);
+  const mapData = generateMap(setup.mapId, setup.mode, rng);
   
   const players: Player[] = [];
   const selectedOperator = OPERATORS.find(op => op.id === setup.operatorId) || OPERATORS[0];
@@ -50,10 +80,16 @@ export const createInitialState = (setup: GameSetup, settings: GameSettings): Ga
       targetEnemyCount = settings.enemyCount;
   }
 
+  // Bots-only matches keep the same head count by giving the human slot to a bot
+  if (setup.botsOnly) {
+      if (isSoloMode) targetEnemyCount++;
+      else targetAllyCount++;
+  }
+
   // Helper to ensure valid spawn
   const getSafeSpawn = (team: Team): Vector2 => {
       let attempts = 0;
-      let pos = getSpawnPoint(team, mapData.mapWidth, mapData.mapHeight);
+      let pos = getSpawnPoint(team, mapData.mapWidth, mapData.mapHeight, rng);
       
       while (attempts < 20) {
           let collided = false;
@@ -75,14 +111,22 @@ export const createInitialState = (setup: GameSetup, settings: GameSettings): Ga
           }
           
           if (!collided) return pos;
-          pos = getSpawnPoint(team, mapData.mapWidth, mapData.mapHeight);
+          pos = getSpawnPoint(team, mapData.mapWidth, mapData.mapHeight, rng);
           attempts++;
       }
       return pos; // Fallback to random if failed
   };
 
+  // Gear for a fresh player: BR starts empty-handed, the rest with full spares for what they carry
+  const createKit = (weapon: WeaponType) => {
+      if (isBR) return { inventory: createInventory(), reserve: {} };
+      const inventory = hasLoadout(setup.mode) ? createLoadout(weapon) : undefined;
+      const weapons = inventory ? inventory.slots.flatMap(s => s ? [s.weapon] : []) : [weapon];
+      return { inventory, reserve: createReserve(weapons) };
+  };
+
   // Create Human Player
-  players.push({
+  if (!setup.botsOnly) players.push({
     id: 'player',
     pos: getSafeSpawn(isFFA ? Team.NONE : Team.ALLIED),
     radius: PLAYER_RADIUS,
@@ -91,6 +135,7 @@ export const createInitialState = (setup: GameSetup, settings: GameSettings): Ga
     angle: 0,
     health: 100 * selectedOperator.healthMult,
     maxHealth: 100 * selectedOperator.healthMult,
+    armor: 0,
     speed: PLAYER_SPEED * selectedOperator.speedMult,
     weapon: isBR ? WeaponType.KNIFE : (setup.mode === GameMode.GUN_GAME ? GUN_GAME_ORDER[0] : setup.weapon),
     ammo: isBR ? 0 : WEAPONS[setup.mode === GameMode.GUN_GAME ? GUN_GAME_ORDER[0] : setup.weapon].magSize,
@@ -99,28 +144,23 @@ export const createInitialState = (setup: GameSetup, settings: GameSettings): Ga
     lastShotTime: 0,
     kills: 0,
     deaths: 0,
-    isBot: false
+    isBot: false,
+    operatorId: selectedOperator.id,
+    ...createKit(setup.mode === GameMode.GUN_GAME ? GUN_GAME_ORDER[0] : setup.weapon)
   });
 
   // Helper to create a single bot
+  const callsigns = new Set<string>();
   const createBot = (id: string, team: Team) => {
-    // Randomize Bot Weapons
-    const botWeapons = [WeaponType.RIFLE, WeaponType.SMG, WeaponType.SHOTGUN];
-    let weapon = botWeapons[Math.floor(Math.random() * botWeapons.length)];
+    // Operator, personality weapon and name
+    const identity = rollBotIdentity(settings.difficulty, rng, callsigns);
+    let weapon = identity.weapon;
     if (setup.mode === GameMode.GUN_GAME) weapon = GUN_GAME_ORDER[0];
     if (isBR) weapon = WeaponType.KNIFE;
     
     // Adjust bot stats based on difficulty
-    let botHealth = 100;
-    let botSpeed = PLAYER_SPEED * 0.9;
-    
-    if (settings.difficulty === Difficulty.RECRUIT) {
-        botHealth = 80;
-        botSpeed = PLAYER_SPEED * 0.7;
-    } else if (settings.difficulty === Difficulty.ELITE) {
-        botHealth = 120;
-        botSpeed = PLAYER_SPEED * 1.0;
-    }
+    const botHealth = BOT_HEALTH[settings.difficulty] * identity.operator.healthMult;
+    const botSpeed = PLAYER_SPEED * BOT_SPEED_MULT[settings.difficulty] * identity.operator.speedMult;
 
     players.push({
       id: id,
@@ -128,18 +168,24 @@ export const createInitialState = (setup: GameSetup, settings: GameSettings): Ga
       radius: PLAYER_RADIUS,
       active: true,
       team: isFFA ? Team.NONE : team,
-      angle: Math.random() * Math.PI * 2,
+      angle: rng() * Math.PI * 2,
       health: botHealth,
       maxHealth: botHealth,
+      armor: 0,
       speed: botSpeed,
       weapon: weapon,
-      ammo: isBR ? 0 : 100,
+      ammo: isBR ? 0 : WEAPONS[weapon].magSize,
       isReloading: false,
       reloadTimer: 0,
       lastShotTime: 0,
       kills: 0,
       deaths: 0,
       isBot: true,
+      operatorId: identity.operator.id,
+      callsign: identity.callsign,
+      rank: identity.rank,
+      ...createKit(weapon),
+      skill: rollBotSkill(settings.difficulty, rng),
       state: 'PATROL',
       target: null
     });
@@ -165,15 +211,20 @@ export const createInitialState = (setup: GameSetup, settings: GameSettings): Ga
   // Handle BR Zone
   let zone: Zone | undefined;
   if (isBR) {
-      zone = {
-          x: mapData.mapWidth / 2,
-          y: mapData.mapHeight / 2,
-          radius: mapData.mapWidth * 0.8,
-          targetRadius: mapData.mapWidth * 0.5,
-          shrinkTimer: 30, // Initial safe time
-          state: 'WAITING',
-          damagePerTick: 0.5
-      };
+      zone = createZone(mapData.mapWidth, mapData.mapHeight, rng);
+  }
+
+  // BR: everyone boards the drop plane. Bots pick where to land now; the human picks in flight.
+  let deployment: Deployment | null = null;
+  if (isBR) {
+      const plan = createDeployment(mapData.mapWidth, mapData.mapHeight, rng);
+      players.forEach(p => {
+          p.pos = { ...plan.from };
+          p.drop = p.isBot
+              ? planDrop(plan, pickLandingSpot(mapData, rng), 0)
+              : { landing: null, jumpAt: plan.flightMs, jumpPos: { ...plan.to } };
+      });
+      deployment = plan;
   }
 
   return {
@@ -187,21 +238,43 @@ export const createInitialState = (setup: GameSetup, settings: GameSettings): Ga
     buildings: mapData.buildings,
     controlPoints: mapData.controlPoints,
     loot: mapData.loot,
+    pickups: mapData.pickups,
     zone,
+    deployment,
+    supplyDrops: [],
+    nextSupplyDropAt: isBR ? FIRST_SUPPLY_DROP_MS : null,
     mapWidth: mapData.mapWidth,
     mapHeight: mapData.mapHeight,
     camera: { x: 0, y: 0 },
     scores: { [Team.ALLIED]: 0, [Team.AXIS]: 0, [Team.NONE]: 0 },
     timeRemaining: 1080, // 18 minutes (1080 seconds)
     killFeed: [],
-    hardpointTimer: 1800 // 30 seconds @ 60fps
+    hardpointTimer: 30000, // 30 seconds
+    time: 0,
+    rngState: rngHolder.rngState,
+    events: [],
+    noises: [],
+    squadOrder: null,
+    respawnQueue: [],
+    spawnsFlipped: false,
+    spawnFlipTime: null,
+    adaptive: settings.adaptiveDifficulty ? createAdaptiveDifficulty(settings.difficulty) : undefined
   };
 };
 
 // --- GAME LOGIC LOOP ---
-export const updateGame = (state: GameState, input: any, dt: number, settings: GameSettings, viewW: number = CANVAS_WIDTH, viewH: number = CANVAS_HEIGHT): GameState => {
+export const updateGame = (state: GameState, input: PlayerInput, dt: number, settings: GameSettings, viewW: number, viewH: number): GameState => {
   const newState = { ...state };
-  const now = Date.now();
+  newState.events = [];
+  
+  // Advance the simulation clock. Never read Date.now() in here, or matches stop being reproducible.
+  newState.time += dt;
+  const now = newState.time;
+  newState.noises = newState.noises.filter(n => now - n.time < NOISE_MEMORY_MS);
+  const random = () => nextRandom(newState);
+  const timeScale = getTimeScale(dt);
+  // Objective modes award points once per simulated second
+  const isScoreTick = Math.floor(now / 1000) !== Math.floor((now - dt) / 1000);
   
   // Update Game Clock
   newState.timeRemaining = Math.max(0, newState.timeRemaining - (dt / 1000));
@@ -209,44 +282,51 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
   const isTeamMode = newState.mode !== GameMode.FFA && newState.mode !== GameMode.GUN_GAME && newState.mode !== GameMode.BATTLE_ROYALE;
   const isBR = newState.mode === GameMode.BATTLE_ROYALE;
 
-  // --- ZONE LOGIC ---
-  if (isBR && newState.zone) {
-      if (newState.zone.state === 'WAITING') {
-          newState.zone.shrinkTimer -= dt/1000;
-          if (newState.zone.shrinkTimer <= 0) {
-              newState.zone.state = 'SHRINKING';
-          }
-      } else if (newState.zone.state === 'SHRINKING') {
-          // Slow down the shrink speed significantly so it's playable on large maps
-          newState.zone.radius -= (newState.mapWidth / 300) * (dt/1000); 
-          if (newState.zone.radius <= newState.zone.targetRadius) {
-              newState.zone.state = 'WAITING';
-              newState.zone.targetRadius = newState.zone.radius / 2;
-              newState.zone.shrinkTimer = 30;
-              if (newState.zone.targetRadius < 50) newState.zone.targetRadius = 0;
-          }
-      }
+  // --- DEPLOYMENT ---
+  if (isBR) updateDeployment(newState, now, input.landing, random);
+
+  // --- ZONE LOGIC --- (holds until everyone is on the ground)
+  if (isBR && newState.zone && !newState.deployment) {
+      updateZone(newState.zone, dt, newState.mapWidth, newState.mapHeight, random);
       
       // Damage Players Outside Zone
       newState.players.forEach(p => {
           if (p.active) {
               const d = dist(p.pos, {x: newState.zone!.x, y: newState.zone!.y});
               if (d > newState.zone!.radius) {
-                  p.health -= newState.zone!.damagePerTick;
+                  applyDamage(newState, p, newState.zone!.damagePerTick * timeScale, null, null, 0);
                   if (p.health <= 0) {
                       p.active = false;
                       p.deaths++;
-                      newState.killFeed.unshift(`${p.id==='player'?'YOU':p.id.toUpperCase()} died to the ZONE`);
-                      soundManager.play('DIE');
+                      recordPlacement(newState, p);
+                      newState.killFeed.unshift(`${getDisplayName(p)} died to the ZONE`);
+                      newState.events.push({ type: 'KILL', killerId: null, victimId: p.id, weapon: null, victimWeapon: p.weapon });
+                      dropInventory(newState, p);
+                      dropAmmo(newState, p);
+                      playSound(newState, 'DIE');
                   }
               }
           }
       });
   }
 
+  if (isBR) updateSupplyDrops(newState, now, random);
+
+  // Squad orders from the human, then the team planner for everyone else
+  const commander = newState.players.find(p => !p.isBot);
+  if (input.command && commander) applySquadCommand(newState, commander, input.command, now);
+  updateSquadOrder(newState, now);
+  updateSquads(newState, now, dt);
+  updateAdaptiveDifficulty(newState, now, dt);
+
+  // Broad-phase lookups for this tick
+  const obstacleGrid = getObstacleGrid(newState.obstacles);
+  const playerGrid = createPlayerGrid(newState.players);
+
   // 1. UPDATE PLAYERS
   newState.players.forEach(p => {
-    if (!p.active) return; 
+    if (!p.active || isAirborne(p)) return; // Deployment moves anyone still in the air
+    const startPos = { x: p.pos.x, y: p.pos.y };
 
     // --- MOVEMENT ---
     let moveDir = { x: 0, y: 0 };
@@ -271,8 +351,9 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
           const mouseWorldPos = {x: mouseWorldX, y: mouseWorldY};
           
           // Check if cursor is over any active enemy
-          const targetFound = newState.players.some(enemy => 
+          const targetFound = playerGrid.queryRadius(mouseWorldPos, 15).some(enemy => 
               enemy.active && 
+              !isAirborne(enemy) &&
               enemy.id !== p.id && // Don't shoot self
               (isTeamMode ? enemy.team !== p.team : true) && // Don't shoot allies
               dist(mouseWorldPos, enemy.pos) < enemy.radius + 15 && // Hitbox tolerance
@@ -282,30 +363,55 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
           if (targetFound) shouldShoot = true;
       }
 
-      if (shouldShoot && !p.isReloading && p.ammo > 0) {
+      if (shouldShoot && !p.isReloading) {
          tryFireWeapon(p, newState, now);
       }
       // Reload
-      if (input.keys['r'] && !p.isReloading && p.ammo < WEAPONS[p.weapon].magSize && p.weapon !== WeaponType.KNIFE) {
-        p.isReloading = true;
-        p.reloadTimer = now + WEAPONS[p.weapon].reloadTime;
-        soundManager.play('RELOAD');
+      if (input.keys['r'] && canReload(p, getWeaponStats(p.weapon, p.rarity).magSize)) {
+        startReload(p, newState, now);
+      }
+
+      // Inventory: 1/2 draw a slot, 3 the knife, X cycles, E swaps with the loot underfoot (BR)
+      if (p.inventory) {
+          if (input.keys['1']) selectSlot(p, 0, now);
+          else if (input.keys['2']) selectSlot(p, 1, now);
+          else if (input.keys['3']) selectSlot(p, null, now);
+
+          const pressed = !!(input.keys['e'] || input.keys['x']);
+          if (pressed && !p.inventory.pressed && canUseInventory(p, now)) {
+              const loot = input.keys['e'] ? findLootInReach(newState, p) : null;
+              if (loot) {
+                  pickUpLoot(newState, p, loot, now);
+                  playSound(newState, 'RELOAD');
+              } else if (input.keys['x']) {
+                  cycleSlot(p, now);
+              }
+          }
+          p.inventory.pressed = pressed;
+
+          // H for a medkit, B for an armor plate
+          if (input.keys['h']) startItemUse(p, 'MEDKIT', now);
+          else if (input.keys['b']) startItemUse(p, 'PLATE', now);
       }
 
     } else {
       // Bot Logic
-      updateBotAI(p, newState, now);
+      updateBotAI(p, newState, now, dt, playerGrid);
+      updateBotPath(p, newState);
     }
 
     // Normalize and Move
     if (moveDir.x !== 0 || moveDir.y !== 0 || (p.isBot && p.target)) {
         if (p.isBot && p.target) {
-            const dx = p.target.x - p.pos.x;
-            const dy = p.target.y - p.pos.y;
+            // Walk the planned path if there is one, then the last leg straight to the target
+            if (p.path && p.path.length > 0 && dist(p.pos, p.path[0]) < WAYPOINT_REACHED) p.path.shift();
+            const goal = p.path && p.path.length > 0 ? p.path[0] : p.target;
+            const dx = goal.x - p.pos.x;
+            const dy = goal.y - p.pos.y;
             const d = Math.sqrt(dx*dx + dy*dy);
             if (d > 10) {
                 moveDir = { x: dx/d, y: dy/d };
-            } else {
+            } else if (goal === p.target) {
                 if (p.state !== 'ZONE_MOVE') {
                    p.target = null; // Reached target only if not constantly running from zone
                 }
@@ -315,14 +421,17 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
              if (len > 0) moveDir = { x: moveDir.x/len, y: moveDir.y/len };
         }
 
-        const sprint = (!p.isBot && input.keys['Shift']) ? SPRINT_MULTIPLIER : 1.0;
-        const newX = p.pos.x + moveDir.x * p.speed * sprint;
-        const newY = p.pos.y + moveDir.y * p.speed * sprint;
+        // Using a medkit or plate slows you down and rules out sprinting
+        const sprint = p.using ? USE_SPEED_MULT : (!p.isBot && input.keys['Shift']) ? SPRINT_MULTIPLIER : 1.0;
+        const speed = p.speed * getBoostMult(p, 'SPEED_BOOST', now);
+        const newX = p.pos.x + moveDir.x * speed * sprint * timeScale;
+        const newY = p.pos.y + moveDir.y * speed * sprint * timeScale;
 
-        const nearbyObstacles = newState.obstacles.filter(o => 
-             Math.abs(o.x - p.pos.x) < 200 && Math.abs(o.y - p.pos.y) < 200 && o.type !== 'WINDOW' 
-        );
+        const reach = p.radius + Math.max(Math.abs(newX - p.pos.x), Math.abs(newY - p.pos.y));
+        const nearbyObstacles = obstacleGrid.queryRadius(p.pos, reach).filter(o => o.type !== 'WINDOW');
 
+        const prevX = p.pos.x;
+        const prevY = p.pos.y;
         let isStuck = false;
         for (const obs of nearbyObstacles) {
             if (checkRectCollide({x: p.pos.x, y: p.pos.y, r: p.radius}, obs)) {
@@ -349,75 +458,110 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
              if (!collidedX) p.pos.x = newX;
              if (!collidedY) p.pos.y = newY;
         }
+
+        if (sprint > 1) emitNoise(newState, p, FOOTSTEP_NOISE);
+
+        // Bots that barely move while trying to get somewhere are pinned and need a new path
+        if (p.isBot && (moveDir.x !== 0 || moveDir.y !== 0)) {
+            const moved = Math.abs(p.pos.x - prevX) + Math.abs(p.pos.y - prevY);
+            p.stuckTime = moved < p.speed * timeScale * 0.25 ? (p.stuckTime ?? 0) + dt : 0;
+        }
     }
 
     // Reload Logic
     if (p.isReloading && now > p.reloadTimer) {
-        p.ammo = WEAPONS[p.weapon].magSize;
+        finishReload(p, getWeaponStats(p.weapon, p.rarity).magSize);
         p.isReloading = false;
     }
     
-    // Loot Pickup Logic (BR Only)
-    if (isBR) {
-        // Auto pickup if KNIFE
-        if (p.weapon === WeaponType.KNIFE) {
-            // Find nearest loot
-            const nearbyLootIdx = newState.loot.findIndex(l => l.active && dist(p.pos, l.pos) < p.radius + 15);
-            if (nearbyLootIdx !== -1) {
-                const loot = newState.loot[nearbyLootIdx];
-                p.weapon = loot.weapon;
-                p.ammo = WEAPONS[loot.weapon].magSize;
-                loot.active = false;
-                soundManager.play('RELOAD');
-            }
+    // Healing: items in BR, regeneration in modes with respawns
+    if (p.using && updateItemUse(p, now)) playSound(newState, 'RELOAD');
+    if (hasRespawns(newState.mode)) updateRegen(p, now, dt);
+
+    // Medkits and plates are picked up by walking over them
+    if (isBR && collectConsumables(newState, p)) playSound(newState, 'RELOAD');
+    // ...and so are the spares the fallen leave behind
+    if (collectAmmo(newState, p)) playSound(newState, 'RELOAD');
+
+    // Loot Pickup Logic (BR Only): bots grab upgrades they walk over, the human uses E
+    if (isBR && p.isBot && canUseInventory(p, now)) {
+        const loot = findLootInReach(newState, p);
+        const slot = loot ? getUpgradeSlot(p, loot) : null;
+        if (loot && slot !== null) {
+            pickUpLoot(newState, p, loot, now, slot);
+            playSound(newState, 'RELOAD');
         }
     }
 
     // Constraints - Use state.mapWidth instead of constant
     p.pos.x = Math.max(0, Math.min(newState.mapWidth, p.pos.x));
     p.pos.y = Math.max(0, Math.min(newState.mapHeight, p.pos.y));
+    p.velocity = { x: (p.pos.x - startPos.x) / dt, y: (p.pos.y - startPos.y) / dt };
+    playerGrid.update(p, getPlayerBounds(p));
   });
 
+  // Pickup pads (only laid out in the modes that have them)
+  updatePickups(newState, now);
+  expireAmmo(newState, now);
+
   // 2. UPDATE BULLETS
   newState.bullets = newState.bullets.filter(b => b.active);
   newState.bullets.forEach(b => {
-    const step = 25; 
-    b.pos.x += b.velocity.x * step;
-    b.pos.y += b.velocity.y * step;
-    b.distanceTraveled += step;
+    // Sweep the whole path travelled this tick so fast bullets can't skip over thin walls or players
+    const step = BULLET_SPEED * timeScale;
+    const start = { x: b.pos.x, y: b.pos.y };
+    const end = { x: start.x + b.velocity.x * step, y: start.y + b.velocity.y * step };
+    // Bullets that run out of range mid-tick stop there
+    const maxT = Math.min(1, (b.maxDistance - b.distanceTraveled) / step);
 
-    if (b.distanceTraveled > b.maxDistance) b.active = false;
+    let hitT = maxT;
+    let hitPlayer: Player | null = null;
+    let hitWall = false;
 
-    // Hit Players
-    for (const p of newState.players) {
-      if (!p.active) continue;
+    // Hit Walls
+    for (const w of obstacleGrid.query(getSegmentBounds(start, end, b.radius))) {
+      if (w.type === 'WINDOW' || w.type === 'COVER_HALF') continue; 
+      const t = segmentRectIntersection(start, end, w, b.radius);
+      if (t !== null && t < hitT) {
+          hitT = t;
+          hitWall = true;
+      }
+    }
+
+    // Hit Players (only counts if nearer than any wall)
+    for (const p of playerGrid.query(getSegmentBounds(start, end, PLAYER_RADIUS + 5))) {
+      if (!p.active || isAirborne(p)) continue;
       if (isTeamMode) {
           if (p.team === b.team) continue;
       } else {
           if (p.id === b.ownerId) continue;
       }
 
-      if (dist(b.pos, p.pos) < p.radius + 5) {
-        b.active = false;
-        p.health -= b.damage;
-        soundManager.play('HIT');
-        if (p.health <= 0) {
-            handleKill(newState, b, p);
-        }
-        break;
+      const t = segmentCircleIntersection(start, end, p.pos, p.radius + 5);
+      if (t !== null && t < hitT) {
+          hitT = t;
+          hitPlayer = p;
+          hitWall = false;
       }
     }
 
-    // Hit Walls
-    for (const w of newState.obstacles) {
-      if (w.type === 'WINDOW' || w.type === 'COVER_HALF') continue; 
-      // Optimization: Simple bounding check first
-      if (b.pos.x < w.x || b.pos.x > w.x + w.w || b.pos.y < w.y || b.pos.y > w.y + w.h) continue;
+    b.pos.x = start.x + (end.x - start.x) * hitT;
+    b.pos.y = start.y + (end.y - start.y) * hitT;
+    b.distanceTraveled += step * hitT;
 
-      if (checkRectCollide({x: b.pos.x, y: b.pos.y, r: 2}, w)) {
-          b.active = false;
-          break;
-      }
+    if (hitPlayer) {
+        b.active = false;
+        // Fresh spawns soak the round but take nothing
+        if (!isSpawnProtected(hitPlayer, now)) {
+            applyDamage(newState, hitPlayer, b.damage, b.ownerId, b.weapon, b.distanceTraveled);
+            if (newState.adaptive && b.ownerId === 'player') newState.adaptive.hits++;
+            playSound(newState, 'HIT');
+            if (hitPlayer.health <= 0) {
+                handleKill(newState, b, hitPlayer);
+            }
+        }
+    } else if (hitWall || b.distanceTraveled >= b.maxDistance) {
+        b.active = false;
     }
   });
 
@@ -425,14 +569,14 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
   if (newState.mode === GameMode.DOMINATION || newState.mode === GameMode.HARDPOINT) {
       // ... existing CP logic ...
       if (newState.mode === GameMode.HARDPOINT && newState.hardpointTimer !== undefined) {
-          newState.hardpointTimer--;
+          newState.hardpointTimer -= dt;
           if (newState.hardpointTimer <= 0) {
               const currentIdx = newState.controlPoints.findIndex(cp => cp.active);
               const nextIdx = (currentIdx + 1) % newState.controlPoints.length;
               newState.controlPoints.forEach((cp, i) => cp.active = (i === nextIdx));
               newState.controlPoints.forEach(cp => { cp.captureProgress = 0; cp.team = Team.NONE; });
-              newState.hardpointTimer = 1800; 
-              soundManager.play('CAPTURE');
+              newState.hardpointTimer = 30000; 
+              playSound(newState, 'CAPTURE');
           }
       }
 
@@ -450,32 +594,32 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
 
           if (alliedCount > 0 && axisCount === 0) {
               if (cp.team !== Team.ALLIED) {
-                  cp.captureProgress += 1;
+                  cp.captureProgress += timeScale;
                   if (cp.captureProgress >= 100) {
                       cp.team = Team.ALLIED;
                       cp.captureProgress = 0;
-                      soundManager.play('CAPTURE');
+                      playSound(newState, 'CAPTURE');
                   }
               }
           } else if (axisCount > 0 && alliedCount === 0) {
               if (cp.team !== Team.AXIS) {
-                  cp.captureProgress += 1;
+                  cp.captureProgress += timeScale;
                   if (cp.captureProgress >= 100) {
                       cp.team = Team.AXIS;
                       cp.captureProgress = 0;
-                      soundManager.play('CAPTURE');
+                      playSound(newState, 'CAPTURE');
                   }
               }
           } else if (alliedCount === 0 && axisCount === 0 && cp.captureProgress > 0) {
-              cp.captureProgress = Math.max(0, cp.captureProgress - 0.5); 
+              cp.captureProgress = Math.max(0, cp.captureProgress - 0.5 * timeScale); 
           }
 
           if (newState.mode === GameMode.HARDPOINT && cp.team !== Team.NONE) {
-              if (now % 60 === 0) newState.scores[cp.team] += 1;
+              if (isScoreTick) newState.scores[cp.team] += 1;
           }
       });
       
-      if (newState.mode === GameMode.DOMINATION && now % 60 === 0) {
+      if (newState.mode === GameMode.DOMINATION && isScoreTick) {
          newState.controlPoints.forEach(cp => {
              if (cp.team !== Team.NONE) {
                  newState.scores[cp.team] += 1;
@@ -484,36 +628,9 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
       }
   }
 
-  // 4. RESPAWN - DISABLE FOR BR
-  if (!isBR) {
-      newState.players.forEach(p => {
-          if (!p.active) {
-              if (Math.random() < 0.01) { 
-                 p.active = true;
-                 p.health = p.maxHealth;
-                 // Use Safe Spawn on Respawn
-                 let attempts = 0;
-                 let newPos = getSpawnPoint(p.team === Team.NONE ? (Math.random() > 0.5 ? Team.ALLIED : Team.AXIS) : p.team, newState.mapWidth, newState.mapHeight);
-                 while (attempts < 5) {
-                    let ok = true;
-                    for (const obs of newState.obstacles) {
-                        if (checkRectCollide({x: newPos.x, y: newPos.y, r: PLAYER_RADIUS}, obs)) { ok = false; break; }
-                    }
-                    if (ok) break;
-                    newPos = getSpawnPoint(p.team === Team.NONE ? (Math.random() > 0.5 ? Team.ALLIED : Team.AXIS) : p.team, newState.mapWidth, newState.mapHeight);
-                    attempts++;
-                 }
-                 p.pos = newPos;
-                 
-                 if (newState.mode === GameMode.GUN_GAME) {
-                     p.ammo = WEAPONS[p.weapon].magSize;
-                 } else {
-                     p.ammo = WEAPONS[p.weapon].magSize;
-                 }
-              }
-          }
-      });
-  }
+  // 4. RESPAWN (none in BR)
+  if (isScoreTick) updateSpawnFlip(newState, now);
+  updateRespawns(newState, now, settings, random);
 
   // 5. CAMERA FOLLOW
   const player = newState.players.find(p => p.id === 'player');
@@ -526,105 +643,155 @@ export const updateGame = (state: GameState, input: any, dt: number, settings: G
   return newState;
 };
 
+// Returns the winning side once the match is over, or null while it is still running.
+// In Battle Royale ALLIED means the human survived; bots-only runs always report AXIS.
+// A human who is knocked out spectates until the last one stands (or leaves early).
+export const getMatchOutcome = (state: GameState): Team | null => {
+    if (state.mode === GameMode.BATTLE_ROYALE) {
+        const activePlayers = state.players.filter(p => p.active);
+        if (activePlayers.length <= 1) {
+            return activePlayers[0] && activePlayers[0].id === 'player' ? Team.ALLIED : Team.AXIS;
+        }
+        return null;
+    }
+
+    if (state.scores[Team.ALLIED] >= 100) return Team.ALLIED;
+    if (state.scores[Team.AXIS] >= 100) return Team.AXIS;
+    if (state.timeRemaining <= 0) {
+        if (state.scores[Team.ALLIED] > state.scores[Team.AXIS]) return Team.ALLIED;
+        if (state.scores[Team.AXIS] > state.scores[Team.ALLIED]) return Team.AXIS;
+        return Team.NONE;
+    }
+    return null;
+};
+
+// All damage goes through here so whoever drives the engine can see who hurt whom
+const applyDamage = (state: GameState, victim: Player, amount: number, attackerId: string | null, weapon: WeaponType | null, distance: number) => {
+    takeDamage(victim, amount, state.time);
+    state.events.push({ type: 'DAMAGE', attackerId, victimId: victim.id, weapon, amount, distance });
+};
+
+const startReload = (p: Player, state: GameState, now: number) => {
+    p.isReloading = true;
+    p.reloadTimer = now + getWeaponStats(p.weapon, p.rarity).reloadTime;
+    playSound(state, 'RELOAD');
+};
+
 const tryFireWeapon = (p: Player, state: GameState, now: number) => {
-    const weapon = WEAPONS[p.weapon];
+    const weapon = getWeaponStats(p.weapon, p.rarity);
     // Check ammo (except knife)
     if (p.weapon !== WeaponType.KNIFE && p.ammo <= 0) return;
 
     if (now - p.lastShotTime >= weapon.fireRate) {
         p.lastShotTime = now;
+        p.spawnProtectedUntil = undefined; // Shooting gives up spawn protection
+        p.using = null; // ...and whatever item was being used
         if (p.weapon !== WeaponType.KNIFE) p.ammo--;
         
-        soundManager.play(`SHOOT_${p.weapon}`);
+        playSound(state, `SHOOT_${p.weapon}`);
+        emitNoise(state, p, weapon.noise);
 
-        let accuracyMod = 1.0;
-        if (p.isBot) {
-            if (state.difficulty === Difficulty.RECRUIT) accuracyMod = 2.0; 
-            if (state.difficulty === Difficulty.ELITE) accuracyMod = 0.5; 
-        }
+        const accuracyMod = p.skill ? p.skill.spreadMult : 1.0;
+        const damage = weapon.damage * getBoostMult(p, 'DAMAGE_BOOST', now);
 
-        const spread = (Math.random() - 0.5) * weapon.accuracy * accuracyMod;
+        const spread = (nextRandom(state) - 0.5) * weapon.accuracy * accuracyMod;
         const angle = p.angle + spread;
         
         state.bullets.push({
-            id: `b-${now}-${Math.random()}`,
+            id: `b-${now}-${p.id}-0`,
             pos: { x: p.pos.x, y: p.pos.y },
             radius: 2,
             active: true,
             velocity: { x: Math.cos(angle), y: Math.sin(angle) },
-            damage: weapon.damage,
+            damage,
             team: p.team,
             ownerId: p.id, 
+            weapon: p.weapon,
             distanceTraveled: 0,
             maxDistance: weapon.range,
             color: weapon.color
         });
+        // Every round counts toward accuracy, pellets included
+        const countShot = () => { if (state.adaptive && !p.isBot) state.adaptive.shots++; };
+        countShot();
 
         if (p.weapon === WeaponType.SHOTGUN || p.weapon === WeaponType.AUTO_SHOTGUN) {
             for(let i=0; i<4; i++) {
-                const sSpread = (Math.random() - 0.5) * weapon.accuracy * 2 * accuracyMod;
+                const sSpread = (nextRandom(state) - 0.5) * weapon.accuracy * 2 * accuracyMod;
                 const sAngle = p.angle + sSpread;
                 state.bullets.push({
-                    id: `b-${now}-${Math.random()}`,
+                    id: `b-${now}-${p.id}-${i + 1}`,
                     pos: { x: p.pos.x, y: p.pos.y },
                     radius: 2,
                     active: true,
                     velocity: { x: Math.cos(sAngle), y: Math.sin(sAngle) },
-                    damage: weapon.damage,
+                    damage,
                     team: p.team,
                     ownerId: p.id,
+                    weapon: p.weapon,
                     distanceTraveled: 0,
                     maxDistance: weapon.range,
                     color: weapon.color
                 });
+                countShot();
             }
         }
     }
 };
 
-const updateBotAI = (bot: Player, state: GameState, now: number) => {
+const updateBotAI = (bot: Player, state: GameState, now: number, dt: number, playerGrid: SpatialGrid<Player>) => {
     let nearestEnemy: Player | null = null;
     let minDst = Infinity;
     const isTeamMode = state.mode !== GameMode.FFA && state.mode !== GameMode.GUN_GAME && state.mode !== GameMode.BATTLE_ROYALE;
     const isBR = state.mode === GameMode.BATTLE_ROYALE;
 
-    let visionRange = 500;
-    let reactionChance = 0.1;
-    
-    if (state.difficulty === Difficulty.RECRUIT) {
-        visionRange = 400;
-        reactionChance = 0.05;
-    } else if (state.difficulty === Difficulty.ELITE) {
-        visionRange = 700;
-        reactionChance = 0.2;
+    const timeScale = getTimeScale(dt);
+    const tactics = getBotTactics(state);
+    const visionRange = blendByLevel(getBotLevel(state), BOT_VISION_RANGE);
+
+    // Bots reload on their own once the magazine runs dry
+    if (bot.ammo <= 0 && canReload(bot, getWeaponStats(bot.weapon, bot.rarity).magSize)) {
+        startReload(bot, state, now);
     }
 
     // BR: Safety First
     if (isBR && state.zone) {
-        const distToCenter = dist(bot.pos, {x: state.zone.x, y: state.zone.y});
-        if (distToCenter > state.zone.radius * 0.8) {
+        // Once the circle starts closing, head for where it will end up
+        const zone = state.zone;
+        const safe = zone.state === 'SHRINKING' ? { x: zone.targetX, y: zone.targetY, r: Math.max(zone.targetRadius, 50) } : { x: zone.x, y: zone.y, r: zone.radius };
+        const distToCenter = dist(bot.pos, safe);
+        if (distToCenter > safe.r * 0.8) {
             bot.state = 'ZONE_MOVE';
-            bot.target = {x: state.zone.x, y: state.zone.y};
+            bot.target = {x: safe.x, y: safe.y};
             const lookAngle = Math.atan2(bot.target.y - bot.pos.y, bot.target.x - bot.pos.x);
             bot.angle = lookAngle;
             
             // Allow checking for enemies while running, but prioritize moving
             // Don't return here, let enemy check happen below.
-        } else if (bot.weapon === WeaponType.KNIFE) {
-             // Loot Priority if safe and knifing
-            bot.state = 'LOOT';
-            const nearbyLoot = state.loot.find(l => l.active && dist(bot.pos, l.pos) < 500);
-            if (nearbyLoot) {
+        } else {
+            // Safe: contest a supply drop in reach, else loot if there is an empty slot or a better gun nearby
+            const supply = getSupplyDropTarget(bot, state);
+            const nearbyLoot = supply ? null : state.loot.find(l => l.active && dist(bot.pos, l.pos) < 500 && wantsLoot(bot, l));
+            if (supply) {
+                bot.state = 'SUPPLY';
+                bot.target = supply;
+                bot.angle = Math.atan2(supply.y - bot.pos.y, supply.x - bot.pos.x);
+                // No early return: anyone else who turns up gets fought for it
+            } else if (nearbyLoot) {
+                bot.state = 'LOOT';
                 bot.target = nearbyLoot.pos;
                 const lookAngle = Math.atan2(bot.target.y - bot.pos.y, bot.target.x - bot.pos.x);
                 bot.angle = lookAngle;
-                return; // Focus on loot, ignore enemies if just knifing
+                if (bot.weapon === WeaponType.KNIFE) return; // Focus on loot, ignore enemies if just knifing
+            } else if (bot.state === 'LOOT' || bot.state === 'SUPPLY') {
+                bot.state = 'PATROL';
+                bot.target = null;
             }
         }
     }
 
-    for (const other of state.players) {
-        if (other.active && other.id !== bot.id) {
+    for (const other of playerGrid.queryRadius(bot.pos, visionRange)) {
+        if (other.active && other.id !== bot.id && !isAirborne(other)) {
              if (isTeamMode && other.team === bot.team) continue;
 
             const d = dist(bot.pos, other.pos);
@@ -637,31 +804,113 @@ const updateBotAI = (bot: Player, state: GameState, now: number) => {
         }
     }
 
+    // Out of rounds altogether: the next gun that can still fire, else the knife. Out of a fight,
+    // back to the best one (a restocked primary, say).
+    const armedSlot = getArmedSlot(bot);
+    if (bot.inventory && armedSlot !== bot.inventory.active && canUseInventory(bot, now)
+        && (isDry(bot) || bot.weapon === WeaponType.KNIFE || !nearestEnemy)) {
+        selectSlot(bot, armedSlot, now);
+    }
+
+    // Track the enemy with the bot's own skill and pull the trigger once it has reacted
+    const engage = (enemy: Player, canShoot: boolean) => {
+        const ready = aimAtTarget(bot, enemy, now, () => nextRandom(state));
+        bot.lastKnownEnemyPos = { ...enemy.pos };
+        if (canShoot && ready && !bot.isReloading && dist(bot.pos, enemy.pos) < getWeaponStats(bot.weapon, bot.rarity).range * 0.8) {
+            tryFireWeapon(bot, state, now);
+        }
+    };
+
+    // Nobody in sight and not running from the zone: patch up
+    if (!nearestEnemy && !bot.using && bot.state !== 'ZONE_MOVE') {
+        if (bot.health < bot.maxHealth * BOT_MEDKIT_HEALTH && canUseItem(bot, 'MEDKIT')) startItemUse(bot, 'MEDKIT', now);
+        else if (canUseItem(bot, 'PLATE')) startItemUse(bot, 'PLATE', now);
+    }
+
+    // A standing order from the human beats everything else: go there, shoot whatever shows up on the way
+    const orderTarget = getOrderTarget(bot, state);
+    if (orderTarget) {
+        bot.state = 'ORDER';
+        bot.cover = null;
+        bot.target = orderTarget;
+        if (nearestEnemy) {
+            engage(nearestEnemy, true);
+        } else if (dist(bot.pos, orderTarget) > 1) {
+            bot.angle = Math.atan2(orderTarget.y - bot.pos.y, orderTarget.x - bot.pos.x);
+        }
+        return;
+    }
+
     if (nearestEnemy) {
-        // If we are running from zone, don't switch state to ATTACK, just shoot
+        let canShoot = true;
+        // If we are running from zone, don't switch state, just face them and shoot.
+        // Movement logic keeps using bot.target, which is the Zone center.
         if (bot.state !== 'ZONE_MOVE') {
-            bot.state = 'ATTACK';
-            bot.target = nearestEnemy.pos; 
-            bot.angle = Math.atan2(nearestEnemy.pos.y - bot.pos.y, nearestEnemy.pos.x - bot.pos.x);
-        } else {
-            // We are moving to zone, but see enemy. Face them to shoot, but don't change move target.
-            // Actually, for simple AI, just facing them is enough, movement logic uses bot.target which is Zone center.
-            bot.angle = Math.atan2(nearestEnemy.pos.y - bot.pos.y, nearestEnemy.pos.x - bot.pos.x);
+            canShoot = updateCombatPosition(bot, nearestEnemy, state, now, isTeamMode, tactics);
         }
-        
-        if (dist(bot.pos, nearestEnemy.pos) < WEAPONS[bot.weapon].range * 0.8) {
-             if (Math.random() < reactionChance) 
-                tryFireWeapon(bot, state, now);
+        engage(nearestEnemy, canShoot);
+
+        // Radio it in so nearby idle teammates come over
+        for (const ally of getHelpResponders(bot, state, now)) {
+            ally.state = 'INVESTIGATE';
+            ally.lastKnownEnemyPos = { ...nearestEnemy.pos };
+            ally.investigateUntil = now + INVESTIGATE_MS;
         }
     } else {
-        if (bot.state !== 'CAPTURE' && bot.state !== 'PATROL' && bot.state !== 'ZONE_MOVE' && bot.state !== 'LOOT') {
+        bot.cover = null;
+
+        // Keep falling back until we get there, even once the threat is out of sight
+        if (isRetreating(bot)) {
+            bot.angle = Math.atan2(bot.target.y - bot.pos.y, bot.target.x - bot.pos.x);
+            return;
+        }
+
+        // Heard something, or just lost sight of someone: go and look
+        const heard = bot.state !== 'ZONE_MOVE' ? findHeardNoise(bot, state, isTeamMode, tactics) : null;
+        if (heard) {
+            bot.state = 'INVESTIGATE';
+            bot.lastKnownEnemyPos = { ...heard.pos };
+            bot.investigateUntil = now + INVESTIGATE_MS;
+        } else if ((bot.state === 'ATTACK' || bot.state === 'COVER') && bot.lastKnownEnemyPos) {
+            bot.state = 'INVESTIGATE';
+            bot.investigateUntil = now + INVESTIGATE_MS;
+        }
+        if (bot.state === 'INVESTIGATE') {
+            const lastKnown = bot.lastKnownEnemyPos;
+            if (lastKnown && now < (bot.investigateUntil ?? 0) && dist(bot.pos, lastKnown) > 30) {
+                bot.target = lastKnown;
+                bot.angle = Math.atan2(lastKnown.y - bot.pos.y, lastKnown.x - bot.pos.x);
+                return;
+            }
+            // Nothing there
+            bot.lastKnownEnemyPos = null;
             bot.state = 'PATROL';
             bot.target = null;
         }
 
-        if (state.mode === GameMode.DOMINATION || state.mode === GameMode.HARDPOINT) {
+        if (bot.state !== 'CAPTURE' && bot.state !== 'PATROL' && bot.state !== 'ZONE_MOVE' && bot.state !== 'LOOT' && bot.state !== 'SUPPLY' && bot.state !== 'PICKUP') {
+            bot.state = 'PATROL';
+            bot.target = null;
+        }
+
+        // A pad worth the detour comes before the squad plan and the objective
+        const pickup = getPickupTarget(bot, state);
+        if (!pickup && bot.state === 'PICKUP') {
+            bot.state = 'PATROL';
+            bot.target = null;
+        }
+
+        const isObjectiveMode = state.mode === GameMode.DOMINATION || state.mode === GameMode.HARDPOINT;
+        const squadTarget = pickup ? null : getSquadTarget(bot, state);
+        if (pickup) {
+            bot.state = 'PICKUP';
+            bot.target = pickup;
+        } else if (squadTarget) {
+            bot.state = isObjectiveMode ? 'CAPTURE' : 'PATROL';
+            bot.target = squadTarget;
+        } else if (isObjectiveMode) {
             bot.state = 'CAPTURE';
-            if (!bot.target || (Math.random() < 0.005)) { 
+            if (!bot.target || (nextRandom(state) < 0.005 * timeScale)) { 
                  let targetCP;
                  if (state.mode === GameMode.HARDPOINT) {
                      targetCP = state.controlPoints.find(cp => cp.active);
@@ -672,49 +921,220 @@ const updateBotAI = (bot: Player, state: GameState, now: number) => {
             }
         } else if (bot.state === 'PATROL') {
              if (!bot.target || dist(bot.pos, bot.target) < 20) {
-                 bot.target = getSpawnPoint(Math.random() > 0.5 ? Team.ALLIED : Team.AXIS, state.mapWidth, state.mapHeight); 
+                 bot.target = getSpawnPoint(nextRandom(state) > 0.5 ? Team.ALLIED : Team.AXIS, state.mapWidth, state.mapHeight, () => nextRandom(state)); 
              }
         }
         
         // Face movement direction if not attacking
-        if (bot.target && !nearestEnemy) {
+        if (bot.target && !nearestEnemy && dist(bot.pos, bot.target) > 1) {
              const lookAngle = Math.atan2(bot.target.y - bot.pos.y, bot.target.x - bot.pos.x);
              bot.angle = lookAngle;
         }
     }
 };
 
-const checkWallBetween = (p1: Vector2, p2: Vector2, obstacles: Obstacle[]): boolean => {
-    const steps = 10;
-    // Bounding box optimization
-    const minX = Math.min(p1.x, p2.x);
-    const maxX = Math.max(p1.x, p2.x);
-    const minY = Math.min(p1.y, p2.y);
-    const maxY = Math.max(p1.y, p2.y);
-
-    for (const o of obstacles) {
-         if (o.type !== 'WALL') continue;
-         // Skip obstacles far outside the line segment
-         if (o.x > maxX || o.x + o.w < minX || o.y > maxY || o.y + o.h < minY) continue;
-
-         // Raycast check
-         for (let i = 1; i < steps; i++) {
-            const t = i / steps;
-            const x = p1.x + (p2.x - p1.x) * t;
-            const y = p1.y + (p2.y - p1.y) * t;
-            if (checkRectCollide({x, y, r: 2}, o)) return true;
-         }
+// --- BOT TACTICS ---
+interface BotTactics {
+    hearingMult: number; // Scales how far away noises are picked up
+    coverHealth: number; // Seek cover below this fraction of max health (and always while reloading)
+    retreatHealth: number; // Fall back below this fraction of max health
+    coverSearchRadius: number;
+    hideMs: number; // Time tucked behind cover between peeks
+    peekMs: number; // Time leaning out to shoot
+}
+
+// Better bots get into cover sooner, find it further away and expose themselves for less time
+const BOT_TACTICS: Record<Difficulty, BotTactics> = {
+    [Difficulty.RECRUIT]: { hearingMult: 0.7, coverHealth: 0.3, retreatHealth: 0.15, coverSearchRadius: 150, hideMs: 700, peekMs: 1800 },
+    [Difficulty.VETERAN]: { hearingMult: 1.0, coverHealth: 0.5, retreatHealth: 0.25, coverSearchRadius: 250, hideMs: 1000, peekMs: 1200 },
+    [Difficulty.ELITE]: { hearingMult: 1.3, coverHealth: 0.75, retreatHealth: 0.35, coverSearchRadius: 350, hideMs: 1200, peekMs: 800 }
+};
+
+// Tactics at the level bots are playing at; adaptive difficulty can sit between the tables
+const getBotTactics = (state: GameState): BotTactics => {
+    if (!state.adaptive) return BOT_TACTICS[state.difficulty];
+    const level = getBotLevel(state);
+    const blend = (field: keyof BotTactics) => blendByLevel(level, {
+        [Difficulty.RECRUIT]: BOT_TACTICS[Difficulty.RECRUIT][field],
+        [Difficulty.VETERAN]: BOT_TACTICS[Difficulty.VETERAN][field],
+        [Difficulty.ELITE]: BOT_TACTICS[Difficulty.ELITE][field]
+    });
+    return {
+        hearingMult: blend('hearingMult'),
+        coverHealth: blend('coverHealth'),
+        retreatHealth: blend('retreatHealth'),
+        coverSearchRadius: blend('coverSearchRadius'),
+        hideMs: blend('hideMs'),
+        peekMs: blend('peekMs')
+    };
+};
+
+const COVER_REVIEW_MS = 1000;
+const RETREAT_RALLY_DISTANCE = 150; // Close enough to a teammate to stop falling back
+const RETREAT_DISTANCE = 400; // Solo modes: how far to back away from the threat
+const RETREAT_ARRIVED = 60;
+const RETREAT_COOLDOWN_MS = 10000; // Without this a hurt bot would do nothing but back off
+
+const INVESTIGATE_MS = 8000; // Give up on a noise or lost contact after this long
+const BOT_MEDKIT_HEALTH = 0.7; // Worth a medkit below this fraction of max health
+
+// The most clearly audible hostile noise, if any. Walls muffle sound to half its range.
+const findHeardNoise = (bot: Player, state: GameState, isTeamMode: boolean, tactics: BotTactics): Noise | null => {
+    let best: Noise | null = null;
+    let bestMargin = 0;
+    for (const n of state.noises) {
+        if (n.sourceId === bot.id || (isTeamMode && n.team === bot.team)) continue;
+        let range = n.radius * tactics.hearingMult;
+        const d = dist(bot.pos, n.pos);
+        if (d >= range) continue;
+        if (checkWallBetween(bot.pos, n.pos, state.obstacles)) range *= 0.5;
+        if (range - d > bestMargin) {
+            best = n;
+            bestMargin = range - d;
+        }
+    }
+    return best;
+};
+
+const isRetreating = (bot: Player) => bot.state === 'RETREAT' && !!bot.target && dist(bot.pos, bot.target) > RETREAT_ARRIVED;
+
+// Where a badly hurt bot should fall back to, or null if it is already as safe as it gets
+const getRetreatTarget = (bot: Player, threat: Player, state: GameState, isTeamMode: boolean): Vector2 | null => {
+    if (isTeamMode) {
+        let nearestAlly: Player | null = null;
+        let allyDst = Infinity;
+        for (const p of state.players) {
+            if (!p.active || p.id === bot.id || p.team !== bot.team || p.state === 'RETREAT') continue;
+            const d = dist(bot.pos, p.pos);
+            if (d < allyDst) {
+                nearestAlly = p;
+                allyDst = d;
+            }
+        }
+        if (nearestAlly) return allyDst > RETREAT_RALLY_DISTANCE ? { ...nearestAlly.pos } : null;
+        return getSpawnPoint(getSpawnSide(state, bot.team), state.mapWidth, state.mapHeight, () => nextRandom(state));
+    }
+
+    // Nobody to fall back to: just open the distance
+    if (dist(bot.pos, threat.pos) > RETREAT_DISTANCE) return null;
+    const away = { x: bot.pos.x - threat.pos.x, y: bot.pos.y - threat.pos.y };
+    const len = Math.sqrt(away.x**2 + away.y**2) || 1;
+    return {
+        x: Math.max(PLAYER_RADIUS, Math.min(state.mapWidth - PLAYER_RADIUS, bot.pos.x + (away.x / len) * RETREAT_DISTANCE)),
+        y: Math.max(PLAYER_RADIUS, Math.min(state.mapHeight - PLAYER_RADIUS, bot.pos.y + (away.y / len) * RETREAT_DISTANCE))
+    };
+};
+
+// Decides where a bot fighting `threat` should be: pushing in, falling back, or working a piece of cover.
+// Returns false while the bot is tucked behind cover and has no shot.
+const updateCombatPosition = (bot: Player, threat: Player, state: GameState, now: number, isTeamMode: boolean, tactics: BotTactics): boolean => {
+    const armed = bot.weapon !== WeaponType.KNIFE;
+    const healthFrac = bot.health / bot.maxHealth;
+
+    // Badly hurt: fall back toward friends and keep shooting on the way
+    if (isRetreating(bot)) return true;
+    const retreatReady = bot.lastRetreatTime === undefined || now - bot.lastRetreatTime > RETREAT_COOLDOWN_MS;
+    if (armed && healthFrac < tactics.retreatHealth && retreatReady) {
+        const fallback = getRetreatTarget(bot, threat, state, isTeamMode);
+        if (fallback) {
+            bot.state = 'RETREAT';
+            bot.target = fallback;
+            bot.cover = null;
+            bot.lastRetreatTime = now;
+            return true;
+        }
+    }
+
+    // Drop cover that no longer shields us from who we are fighting
+    let cover = bot.cover;
+    if (cover && (cover.threatId !== threat.id || now >= cover.reviewAt)) {
+        if (shieldsFrom(cover.obstacle, cover.spot, threat.pos)) {
+            cover.threatId = threat.id;
+            cover.reviewAt = now + COVER_REVIEW_MS;
+        } else {
+            cover = null;
+        }
+    }
+
+    const wantsCover = armed && (healthFrac < tactics.coverHealth || bot.isReloading);
+    if (!wantsCover) cover = null;
+    if (!cover && wantsCover) {
+        const found = findCoverSpot(state, bot.pos, threat.pos, tactics.coverSearchRadius);
+        if (found) cover = { ...found, threatId: threat.id, peeking: false, phaseEndsAt: now + tactics.hideMs, reviewAt: now + COVER_REVIEW_MS };
+    }
+    bot.cover = cover;
+
+    if (!cover) {
+        bot.state = 'ATTACK';
+        bot.target = threat.pos;
+        return true;
+    }
+
+    bot.state = 'COVER';
+    if (cover.peeking) {
+        bot.target = cover.peek;
+        if (now >= cover.phaseEndsAt || bot.isReloading) {
+            cover.peeking = false;
+            cover.phaseEndsAt = now + tactics.hideMs;
+        }
+        return true;
+    }
+
+    bot.target = cover.spot;
+    if (dist(bot.pos, cover.spot) > 20) return true; // Still getting there, shoot on the move
+
+    // Tucked in: top up the magazine, then lean out again
+    const magSize = getWeaponStats(bot.weapon, bot.rarity).magSize;
+    if (bot.ammo < magSize / 2 && canReload(bot, magSize)) startReload(bot, state, now);
+    if (now >= cover.phaseEndsAt && !bot.isReloading) {
+        cover.peeking = true;
+        cover.phaseEndsAt = now + tactics.peekMs;
     }
     return false;
 };
 
+// --- BOT NAVIGATION ---
+const NAV_STATES: Player['state'][] = ['PATROL', 'CAPTURE', 'LOOT', 'SUPPLY', 'PICKUP', 'ZONE_MOVE', 'COVER', 'RETREAT', 'INVESTIGATE', 'ORDER'];
+const WAYPOINT_REACHED = 12;
+const REPLAN_DISTANCE = 40; // Target moved this far from where the path was planned to
+const STUCK_REPLAN_MS = 600;
+
+// Keeps bot.path leading to bot.target for the states that travel. Plans only when the
+// target changes or the bot has been pinned for a while, not every tick.
+const updateBotPath = (bot: Player, state: GameState) => {
+    if (!bot.target || !NAV_STATES.includes(bot.state)) {
+        bot.path = null;
+        bot.pathGoal = null;
+        return;
+    }
+
+    const goalMoved = !bot.pathGoal || dist(bot.pathGoal, bot.target) > REPLAN_DISTANCE;
+    const stuck = (bot.stuckTime ?? 0) > STUCK_REPLAN_MS;
+    if (!goalMoved && !stuck) return;
+
+    bot.pathGoal = { ...bot.target };
+    bot.stuckTime = 0;
+    // No route found: walk straight and try again if that pins us
+    bot.path = findPath(state, bot.pos, bot.target) ?? [];
+};
+
+// Battle Royale: whoever goes out finishes just behind everyone still standing
+const recordPlacement = (state: GameState, victim: Player) => {
+    if (state.mode !== GameMode.BATTLE_ROYALE) return;
+    victim.placement = state.players.filter(p => p.active).length + 1;
+};
+
 const handleKill = (state: GameState, bullet: Bullet, victim: Player) => {
     victim.active = false;
     victim.deaths++;
-    soundManager.play('DIE');
+    recordPlacement(state, victim);
+    playSound(state, 'DIE');
     
     // Find killer using ownerId
     const killer = state.players.find(p => p.id === bullet.ownerId); 
+    state.events.push({ type: 'KILL', killerId: bullet.ownerId, victimId: victim.id, weapon: bullet.weapon, victimWeapon: victim.weapon });
+    if (state.mode === GameMode.BATTLE_ROYALE) dropInventory(state, victim);
+    dropAmmo(state, victim);
     if (killer) {
         killer.kills++; 
         
@@ -724,7 +1144,8 @@ const handleKill = (state: GameState, bullet: Bullet, victim: Player) => {
              if (currentIndex < GUN_GAME_ORDER.length - 1) {
                  killer.weapon = GUN_GAME_ORDER[currentIndex + 1];
                  killer.ammo = WEAPONS[killer.weapon].magSize;
-                 soundManager.play('CAPTURE'); 
+                 killer.reserve = createReserve([killer.weapon]);
+                 playSound(state, 'CAPTURE'); 
              } else {
                  state.scores[killer.team === Team.NONE ? Team.ALLIED : killer.team] = 100;
                  if (killer.id === 'player') state.scores[Team.ALLIED] = 100; 
@@ -742,6 +1163,6 @@ const handleKill = (state: GameState, bullet: Bullet, victim: Player) => {
         }
     }
     
-    state.killFeed.unshift(`${killer ? (killer.id==='player'?'YOU':killer.id.toUpperCase()) : 'UNK'} eliminated ${victim.id==='player'?'YOU':victim.id.toUpperCase()}`);
+    state.killFeed.unshift(`${killer ? getDisplayName(killer) : 'UNK'} eliminated ${getDisplayName(victim)}`);
     if (state.killFeed.length > 5) state.killFeed.pop();
 };
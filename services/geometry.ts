@@ -0,0 +1,73 @@
+
+import { Vector2 } from '../types';
+
+// --- MATH HELPERS ---
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export const dist = (v1: Vector2, v2: Vector2) => Math.sqrt((v1.x - v2.x)**2 + (v1.y - v2.y)**2);
+
+export const normalize = (v: Vector2) => {
+  const d = Math.sqrt(v.x**2 + v.y**2);
+  return d === 0 ? {x:0, y:0} : {x: v.x/d, y: v.y/d};
+};
+
+export const checkRectCollide = (circle: {x: number, y: number, r: number}, rect: Rect) => {
+  const testX = circle.x < rect.x ? rect.x : circle.x > rect.x + rect.w ? rect.x + rect.w : circle.x;
+  const testY = circle.y < rect.y ? rect.y : circle.y > rect.y + rect.h ? rect.y + rect.h : circle.y;
+  const distX = circle.x - testX;
+  const distY = circle.y - testY;
+  return (distX*distX + distY*distY) <= (circle.r*circle.r);
+};
+
+// --- SWEPT TESTS ---
+// Both return how far along the segment a -> b the first contact happens (0..1), or null for a miss.
+
+// Slab test against the rect grown by `pad` on every side
+export const segmentRectIntersection = (a: Vector2, b: Vector2, rect: Rect, pad: number = 0): number | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let tMin = 0;
+  let tMax = 1;
+
+  const axes: [number, number, number, number][] = [
+    [a.x, dx, rect.x - pad, rect.x + rect.w + pad],
+    [a.y, dy, rect.y - pad, rect.y + rect.h + pad]
+  ];
+  for (const [origin, delta, min, max] of axes) {
+    if (Math.abs(delta) < 1e-9) {
+      // Parallel to this slab: either always inside it or never
+      if (origin < min || origin > max) return null;
+      continue;
+    }
+    let t1 = (min - origin) / delta;
+    let t2 = (max - origin) / delta;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return null;
+  }
+  return tMin;
+};
+
+export const segmentCircleIntersection = (a: Vector2, b: Vector2, center: Vector2, radius: number): number | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const fx = a.x - center.x;
+  const fy = a.y - center.y;
+  const c = fx*fx + fy*fy - radius*radius;
+  if (c <= 0) return 0; // Starts inside
+
+  const aa = dx*dx + dy*dy;
+  if (aa === 0) return null;
+  const bb = 2 * (fx*dx + fy*dy);
+  const disc = bb*bb - 4*aa*c;
+  if (disc < 0) return null;
+
+  const t = (-bb - Math.sqrt(disc)) / (2*aa);
+  return t >= 0 && t <= 1 ? t : null;
+};
@@ -0,0 +1,48 @@
+
+import { ConsumableType, Player } from '../types';
+import { CONSUMABLES, MAX_ARMOR } from '../constants';
+
+// --- HEALTH AND ARMOR ---
+// Armor soaks up damage before health. Modes with respawns bring health back on its own after
+// a quiet spell; Battle Royale has no regeneration, only medkits and plates that take time to use.
+
+const REGEN_DELAY_MS = 5000;
+const REGEN_PER_SEC = 20;
+export const USE_SPEED_MULT = 0.5; // Movement while using an item
+
+export const takeDamage = (p: Player, amount: number, now: number) => {
+  const absorbed = Math.min(p.armor, amount);
+  p.armor -= absorbed;
+  p.health -= amount - absorbed;
+  p.lastDamagedAt = now;
+};
+
+export const updateRegen = (p: Player, now: number, dt: number) => {
+  if (p.health >= p.maxHealth) return;
+  if (p.lastDamagedAt !== undefined && now - p.lastDamagedAt < REGEN_DELAY_MS) return;
+  p.health = Math.min(p.maxHealth, p.health + REGEN_PER_SEC * dt / 1000);
+};
+
+// Carrying one, not busy, and it would do something
+export const canUseItem = (p: Player, item: ConsumableType) => {
+  if (!p.inventory || p.inventory.consumables[item] <= 0 || p.using) return false;
+  return item === 'MEDKIT' ? p.health < p.maxHealth : p.armor < MAX_ARMOR;
+};
+
+export const startItemUse = (p: Player, item: ConsumableType, now: number) => {
+  if (!canUseItem(p, item)) return false;
+  p.using = { item, doneAt: now + CONSUMABLES[item].useMs };
+  return true;
+};
+
+// Applies the item once its use time is up. Returns what was used, if anything finished.
+export const updateItemUse = (p: Player, now: number): ConsumableType | null => {
+  const use = p.using;
+  if (!use || now < use.doneAt || !p.inventory) return null;
+  const { amount } = CONSUMABLES[use.item];
+  if (use.item === 'MEDKIT') p.health = Math.min(p.maxHealth, p.health + amount);
+  else p.armor = Math.min(MAX_ARMOR, p.armor + amount);
+  p.inventory.consumables[use.item]--;
+  p.using = null;
+  return use.item;
+};
@@ -0,0 +1,235 @@
+
+import { ConsumableType, GameMode, GameState, Inventory, InventorySlot, LootItem, Player, Rarity, WeaponLoot, WeaponStats, WeaponType } from '../types';
+import { WEAPONS, RARITY_TIERS, CONSUMABLES } from '../constants';
+import { dist } from './geometry';
+import { Rng } from './random';
+import { addReserve, getReserve, wantsAmmo } from './ammo';
+
+// --- INVENTORY ---
+// Two weapon slots plus the knife, and in Battle Royale a pouch of medkits and plates. The other
+// modes (bar Gun Game, where kills pick the gun) start the slots as a primary and a sidearm.
+// The weapon in hand lives on the player (weapon, rarity, ammo); the slots only hold what is stowed.
+
+const ACTION_COOLDOWN_MS = 300;
+const LOOT_REACH = 20; // Beyond touching the item
+const DROP_SPREAD = 24; // How far from the body dropped weapons land
+const FRESH_LOOT_MAGS = 2; // Spare magazines that come with a weapon nobody has used yet
+
+export const SIDEARM = WeaponType.PISTOL;
+
+const RARITY_ORDER = Object.values(Rarity);
+
+export const rarityRank = (rarity?: Rarity) => RARITY_ORDER.indexOf(rarity ?? Rarity.COMMON);
+
+// Base stats scaled by the rarity tier. Common weapons, and the knife, are stock.
+export const getWeaponStats = (weapon: WeaponType, rarity?: Rarity): WeaponStats => {
+  const base = WEAPONS[weapon];
+  if (!rarity || rarity === Rarity.COMMON || weapon === WeaponType.KNIFE) return base;
+  const tier = RARITY_TIERS[rarity];
+  return {
+    ...base,
+    damage: base.damage * tier.damageMult,
+    accuracy: base.accuracy * tier.accuracyMult,
+    magSize: Math.round(base.magSize * tier.magMult),
+    reloadTime: base.reloadTime * tier.reloadMult
+  };
+};
+
+export const rollRarity = (rng: Rng): Rarity => {
+  const total = RARITY_ORDER.reduce((sum, r) => sum + RARITY_TIERS[r].weight, 0);
+  let roll = rng() * total;
+  for (const r of RARITY_ORDER) {
+    roll -= RARITY_TIERS[r].weight;
+    if (roll < 0) return r;
+  }
+  return Rarity.COMMON;
+};
+
+export const createInventory = (): Inventory => ({
+  slots: [null, null],
+  active: null,
+  consumables: { MEDKIT: 0, PLATE: 0 },
+  lastActionAt: -ACTION_COOLDOWN_MS,
+  pressed: false
+});
+
+export const hasLoadout = (mode: GameMode) => mode !== GameMode.BATTLE_ROYALE && mode !== GameMode.GUN_GAME;
+
+// A primary in hand and the sidearm stowed, both loaded. A pistol primary is its own sidearm;
+// picking the knife leaves the first slot empty.
+export const createLoadout = (primary: WeaponType): Inventory => {
+  const inv = createInventory();
+  const weapons = primary === SIDEARM ? [primary] : [primary === WeaponType.KNIFE ? null : primary, SIDEARM];
+  weapons.forEach((weapon, i) => { if (weapon) inv.slots[i] = { weapon, rarity: Rarity.COMMON, ammo: WEAPONS[weapon].magSize }; });
+  inv.active = inv.slots[0] ? 0 : null;
+  return inv;
+};
+
+// Back to a fresh start after a respawn: every slot loaded and the first one in hand
+export const refillLoadout = (p: Player) => {
+  const inv = p.inventory;
+  if (!inv) return;
+  inv.slots.forEach(slot => { if (slot) slot.ammo = getWeaponStats(slot.weapon, slot.rarity).magSize; });
+  hold(inv, p, inv.slots[0] ? 0 : null);
+};
+
+export const canUseInventory = (p: Player, now: number) =>
+  !!p.inventory && now - p.inventory.lastActionAt >= ACTION_COOLDOWN_MS;
+
+// Puts the magazine of the weapon in hand back into its slot
+const stow = (inv: Inventory, p: Player) => {
+  const slot = inv.active !== null ? inv.slots[inv.active] : null;
+  if (slot) slot.ammo = p.ammo;
+};
+
+const hold = (inv: Inventory, p: Player, index: number | null) => {
+  const slot = index !== null ? inv.slots[index] : null;
+  inv.active = slot ? index : null;
+  p.weapon = slot ? slot.weapon : WeaponType.KNIFE;
+  p.rarity = slot ? slot.rarity : undefined;
+  p.ammo = slot ? slot.ammo : 0;
+  p.isReloading = false;
+};
+
+// Draws a slot (null for the knife). False if it is empty or already in hand.
+export const selectSlot = (p: Player, index: number | null, now: number) => {
+  const inv = p.inventory;
+  if (!inv || inv.active === index || (index !== null && !inv.slots[index])) return false;
+  stow(inv, p);
+  hold(inv, p, index);
+  inv.lastActionAt = now;
+  return true;
+};
+
+// The best slot that can still fire: highest rarity, then first in order. Null for the knife.
+export const getArmedSlot = (p: Player): number | null => {
+  const inv = p.inventory;
+  if (!inv) return null;
+  let best: number | null = null;
+  inv.slots.forEach((slot, i) => {
+    if (!slot) return;
+    const loaded = inv.active === i ? p.ammo : slot.ammo;
+    if (loaded + getReserve(p, slot.weapon) <= 0) return;
+    if (best === null || rarityRank(slot.rarity) > rarityRank(inv.slots[best]!.rarity)) best = i;
+  });
+  return best;
+};
+
+// Next weapon along: the slots in order, then the knife, skipping empty slots
+export const cycleSlot = (p: Player, now: number) => {
+  const inv = p.inventory;
+  if (!inv) return false;
+  const order: (number | null)[] = [...inv.slots.keys(), null];
+  const start = order.indexOf(inv.active);
+  for (let i = 1; i < order.length; i++) {
+    const next = order[(start + i) % order.length];
+    if (next === null || inv.slots[next]) return selectSlot(p, next, now);
+  }
+  return false;
+};
+
+const inReach = (p: Player, l: LootItem) => dist(p.pos, l.pos) < p.radius + l.radius + LOOT_REACH;
+
+// The closest weapon close enough to grab
+export const findLootInReach = (state: GameState, p: Player): WeaponLoot | null => {
+  let best: WeaponLoot | null = null;
+  let bestDist = Infinity;
+  for (const l of state.loot) {
+    if (!l.active || l.kind !== 'WEAPON' || !inReach(p, l)) continue;
+    const d = dist(p.pos, l.pos);
+    if (d < bestDist) {
+      best = l;
+      bestDist = d;
+    }
+  }
+  return best;
+};
+
+// Medkits and plates are picked up just by walking over them, while there is room
+export const collectConsumables = (state: GameState, p: Player) => {
+  const inv = p.inventory;
+  if (!inv) return false;
+  let collected = false;
+  for (const l of state.loot) {
+    if (!l.active || l.kind === 'WEAPON' || l.kind === 'AMMO' || inv.consumables[l.kind] >= CONSUMABLES[l.kind].maxCarried || !inReach(p, l)) continue;
+    inv.consumables[l.kind]++;
+    l.active = false;
+    collected = true;
+  }
+  return collected;
+};
+
+// Whether a bot should go out of its way for `loot`
+export const wantsLoot = (p: Player, loot: LootItem) => {
+  if (loot.kind === 'WEAPON') return getUpgradeSlot(p, loot) !== null;
+  if (loot.kind === 'AMMO') return wantsAmmo(p, loot);
+  return !!p.inventory && p.inventory.consumables[loot.kind] < CONSUMABLES[loot.kind].maxCarried;
+};
+
+// Where a bot would put `loot`: an empty slot, or the worst slot if the loot beats it
+export const getUpgradeSlot = (p: Player, loot: WeaponLoot): number | null => {
+  const inv = p.inventory;
+  if (!inv) return null;
+  const empty = inv.slots.findIndex(s => !s);
+  if (empty !== -1) return empty;
+  let worst = 0;
+  inv.slots.forEach((s, i) => { if (rarityRank(s!.rarity) < rarityRank(inv.slots[worst]!.rarity)) worst = i; });
+  return rarityRank(loot.rarity) > rarityRank(inv.slots[worst]!.rarity) ? worst : null;
+};
+
+// Takes `loot` into `index` (by default an empty slot, else the one in hand) and draws it.
+// Whatever was in that slot is left on the ground in its place, as a new item: the one taken
+// is gone for good (a supply crate counts as emptied once its own items are). Fresh loot brings spares.
+export const pickUpLoot = (state: GameState, p: Player, loot: WeaponLoot, now: number, index?: number) => {
+  const inv = p.inventory;
+  if (!inv) return;
+  stow(inv, p);
+  const empty = inv.slots.findIndex(s => !s);
+  const target = index ?? (empty !== -1 ? empty : inv.active ?? 0);
+  const old = inv.slots[target];
+  const magSize = getWeaponStats(loot.weapon, loot.rarity).magSize;
+  if (loot.ammo === undefined) addReserve(p, loot.weapon, magSize * FRESH_LOOT_MAGS);
+  inv.slots[target] = { weapon: loot.weapon, rarity: loot.rarity, ammo: loot.ammo ?? magSize };
+  loot.active = false;
+  if (old) {
+    state.loot.push({
+      id: `swap-${p.id}-${now}`,
+      pos: { ...loot.pos },
+      radius: loot.radius,
+      active: true,
+      kind: 'WEAPON',
+      weapon: old.weapon,
+      rarity: old.rarity,
+      ammo: old.ammo
+    });
+  }
+  hold(inv, p, target);
+  inv.lastActionAt = now;
+};
+
+// Spills everything an eliminated player carried around the body
+export const dropInventory = (state: GameState, p: Player) => {
+  const inv = p.inventory;
+  if (!inv) return;
+  stow(inv, p);
+  const items: ({ kind: 'WEAPON', slot: InventorySlot } | { kind: ConsumableType })[] = [];
+  inv.slots.forEach(slot => { if (slot) items.push({ kind: 'WEAPON', slot }); });
+  (Object.keys(inv.consumables) as ConsumableType[]).forEach(kind => {
+    for (let i = 0; i < inv.consumables[kind]; i++) items.push({ kind });
+  });
+
+  items.forEach((item, i) => {
+    const angle = (i / items.length) * Math.PI * 2;
+    const base = {
+      id: `drop-${p.id}-${state.time}-${i}`,
+      pos: { x: p.pos.x + Math.cos(angle) * DROP_SPREAD, y: p.pos.y + Math.sin(angle) * DROP_SPREAD },
+      radius: 10,
+      active: true
+    };
+    state.loot.push(item.kind === 'WEAPON'
+      ? { ...base, kind: 'WEAPON', weapon: item.slot.weapon, rarity: item.slot.rarity, ammo: item.slot.ammo }
+      : { ...base, kind: item.kind });
+  });
+  inv.slots = inv.slots.map(() => null);
+  inv.consumables = { MEDKIT: 0, PLATE: 0 };
+};
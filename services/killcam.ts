@@ -0,0 +1,102 @@
+
+import { Bullet, GameEvent, GameState, Player, WeaponType } from '../types';
+import { getDisplayName } from './botIdentity';
+
+// --- KILLCAM ---
+// The view keeps the last few seconds of the match in a rolling buffer. When the human
+// dies, that buffer is frozen and played back from the killer's side, then the damage
+// they took in that life is summed up in a recap.
+
+export const KILLCAM_MS = 3000;
+export const RECAP_MS = 5000; // How long the recap stays up after the killcam
+
+// Just what the killcam draws: everything else on the map doesn't move
+export interface KillcamFrame {
+  time: number;
+  players: Player[];
+  bullets: Bullet[];
+}
+
+export interface Killcam {
+  killerId: string | null;
+  diedAt: number;
+  frames: KillcamFrame[];
+}
+
+export interface DeathRecapEntry {
+  attackerId: string | null; // null for the zone
+  name: string;
+  weapon: WeaponType | null;
+  damage: number;
+  hits: number;
+  distance: number; // Average over the hits, in px
+  killer: boolean;
+}
+
+export type DamageEvent = Extract<GameEvent, { type: 'DAMAGE' }>;
+
+export const createKillcamBuffer = () => {
+  const frames: KillcamFrame[] = [];
+
+  return {
+    // Call once per tick
+    capture(state: GameState) {
+      frames.push({
+        time: state.time,
+        players: state.players.map(p => ({ ...p, pos: { ...p.pos } })),
+        bullets: state.bullets.filter(b => b.active).map(b => ({ ...b, pos: { ...b.pos } }))
+      });
+      const cutoff = state.time - KILLCAM_MS;
+      while (frames[0].time < cutoff) frames.shift();
+    },
+    // Freezes what the buffer holds for playback
+    freeze(killerId: string | null, diedAt: number): Killcam {
+      return { killerId, diedAt, frames: frames.slice() };
+    }
+  };
+};
+
+// The frame to show `elapsed` ms into playback, or null once the killcam has run out
+export const getKillcamFrame = (killcam: Killcam, elapsed: number): KillcamFrame | null => {
+  if (elapsed >= KILLCAM_MS || killcam.frames.length === 0) return null;
+  const at = killcam.diedAt - KILLCAM_MS + elapsed;
+  // Frames are in time order; take the last one at or before `at`
+  let frame = killcam.frames[0];
+  for (const f of killcam.frames) {
+    if (f.time > at) break;
+    frame = f;
+  }
+  return frame;
+};
+
+// Damage taken in one life, worst offender first
+export const buildDeathRecap = (damage: DamageEvent[], killerId: string | null, players: Player[]): DeathRecapEntry[] => {
+  const byAttacker = new Map<string, DeathRecapEntry & { totalDistance: number }>();
+  for (const e of damage) {
+    const key = e.attackerId ?? 'ZONE';
+    let entry = byAttacker.get(key);
+    if (!entry) {
+      const attacker = players.find(p => p.id === e.attackerId);
+      entry = {
+        attackerId: e.attackerId,
+        name: attacker ? getDisplayName(attacker) : 'ZONE',
+        weapon: e.weapon,
+        damage: 0,
+        hits: 0,
+        distance: 0,
+        totalDistance: 0,
+        killer: e.attackerId === killerId
+      };
+      byAttacker.set(key, entry);
+    }
+    entry.damage += e.amount;
+    entry.totalDistance += e.distance;
+    // Zone damage lands every tick; only bullets count as hits
+    if (e.attackerId) entry.hits++;
+    entry.weapon = e.weapon ?? entry.weapon;
+  }
+
+  return Array.from(byAttacker.values())
+    .map(({ totalDistance, ...entry }) => ({ ...entry, distance: entry.hits > 0 ? totalDistance / entry.hits : 0 }))
+    .sort((a, b) => b.damage - a.damage);
+};
@@ -1,12 +1,17 @@
 
-import { Building, Obstacle, Vector2, ControlPoint, Team, MapId, MapTheme, GameMode, LootItem, WeaponType } from '../types';
+import { Building, Obstacle, Vector2, ControlPoint, Team, MapId, MapTheme, GameMode, LootItem, WeaponType, PickupPad, PickupType } from '../types';
 import { WORLD_WIDTH, WORLD_HEIGHT, WEAPONS } from '../constants';
+import { rollRarity } from './inventory';
+import { hasPickups } from './pickups';
+import { snapLanding } from './deployment';
+import { Rng } from './random';
 
-export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMode.TDM) => {
+export const generateMap = (mapId: MapId, mode: GameMode, rng: Rng) => {
   const buildings: Building[] = [];
   const obstacles: Obstacle[] = [];
   const controlPoints: ControlPoint[] = [];
   const loot: LootItem[] = [];
+  const pickups: PickupPad[] = [];
   
   // DETERMINE MAP SCALE
   const isBR = mode === GameMode.BATTLE_ROYALE;
@@ -125,14 +130,26 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
     obstacles.push(...buildingWalls);
     
     // Spawn Loot in Building (If BR)
-    if (isBR && Math.random() > 0.3) {
+    if (isBR && rng() > 0.3) {
         const weaponTypes = Object.values(WeaponType).filter(w => w !== WeaponType.KNIFE);
-        const randWeapon = weaponTypes[Math.floor(Math.random() * weaponTypes.length)];
+        const randWeapon = weaponTypes[Math.floor(rng() * weaponTypes.length)];
         loot.push({
             id: `loot-${x}-${y}`,
             pos: { x: x + w/2, y: y + h/2 },
             radius: 10,
+            kind: 'WEAPON',
             weapon: randWeapon,
+            rarity: rollRarity(rng),
+            active: true
+        });
+    }
+    // Medical supplies tucked in a corner
+    if (isBR && rng() > 0.5) {
+        loot.push({
+            id: `loot-med-${x}-${y}`,
+            pos: { x: x + 40, y: y + 40 },
+            radius: 10,
+            kind: rng() > 0.5 ? 'MEDKIT' : 'PLATE',
             active: true
         });
     }
@@ -148,6 +165,12 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
       obstacles.push({ x, y, w: size, h: size, type: 'COVER_HALF' });
   };
 
+  // Pads only exist in the modes that use them; each layout says where its own go
+  const createPad = (x: number, y: number, type: PickupType) => {
+      if (!hasPickups(mode)) return;
+      pickups.push({ id: `pad-${pickups.length}`, pos: { x, y }, radius: 18, active: true, type, respawnAt: 0 });
+  };
+
   // --- DETAIL HELPERS ---
   const createCar = (x: number, y: number, vertical: boolean) => {
       // Cars are half-cover obstacles
@@ -197,6 +220,16 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
           obstacles.push({ x: offsetX + w/2 + 200, y: offsetY + h/2, w: 10, h: 100, type: 'COVER_FULL' });
           obstacles.push({ x: offsetX + w/2 + 200, y: offsetY + h/2, w: 80, h: 10, type: 'COVER_FULL' });
 
+          // Pickups: ammo in the corner blocks, health on the side streets, power-up by the statue
+          createPad(offsetX + 250, offsetY + 400, 'AMMO');
+          createPad(offsetX + 250, offsetY + h - 400, 'AMMO');
+          createPad(offsetX + w - 250, offsetY + 450, 'AMMO');
+          createPad(offsetX + w - 250, offsetY + h - 350, 'AMMO');
+          createPad(offsetX + LANE_WIDTH, offsetY + h/2, 'HEALTH');
+          createPad(offsetX + w - LANE_WIDTH, offsetY + h/2, 'HEALTH');
+          createPad(offsetX + w/2 + 300, offsetY + h/2 + 50, 'ARMOR');
+          createPad(offsetX + w/2, offsetY + h/2 - 120, 'DAMAGE_BOOST');
+
       } else if (mapId === MapId.DESERT) {
           createBuilding(offsetX + 100, offsetY + 100, 200, 200, 1, ['right', 'bottom']);
           createBuilding(offsetX + w - 300, offsetY + h - 300, 200, 200, 1, ['left', 'top']);
@@ -208,7 +241,7 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
           
           // Scattered Rocks
           for(let i=0; i<15; i++) {
-              createRock(offsetX + Math.random() * (w - 200) + 100, offsetY + Math.random() * (h - 200) + 100, 40 + Math.random() * 40);
+              createRock(offsetX + rng() * (w - 200) + 100, offsetY + rng() * (h - 200) + 100, 40 + rng() * 40);
           }
 
           // Bazaar / Market Area (Desert Details)
@@ -216,11 +249,19 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
           const marketY = offsetY + 200;
           for(let i=0; i<3; i++) {
               for(let j=0; j<3; j++) {
-                  if (Math.random() > 0.3)
+                  if (rng() > 0.3)
                     createMarketStall(marketX + i * 60, marketY + j * 60);
               }
           }
 
+          // Pickups: ammo in the two houses, speed in the ruins, armor behind the market
+          createPad(offsetX + 200, offsetY + 200, 'AMMO');
+          createPad(offsetX + w - 200, offsetY + h - 200, 'AMMO');
+          createPad(offsetX + w/2, offsetY + 300, 'HEALTH');
+          createPad(offsetX + w/2, offsetY + h - 300, 'HEALTH');
+          createPad(marketX + 90, marketY + 230, 'ARMOR');
+          createPad(offsetX + w/2, offsetY + h/2 - 50, 'SPEED_BOOST');
+
       } else if (mapId === MapId.INDUSTRIAL) {
           const cx = offsetX + w / 2;
           const cy = offsetY + h / 2;
@@ -230,7 +271,7 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
           for(let x=offsetX+200; x<offsetX+w-200; x+=300) {
               if (Math.abs(x - cx) < 300) continue; 
               for (let y=offsetY+200; y<offsetY+h-200; y+=250) {
-                   createContainer(x, y, Math.random() > 0.5);
+                   createContainer(x, y, rng() > 0.5);
               }
           }
 
@@ -243,14 +284,22 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
           obstacles.push({ x: offsetX + 150, y: offsetY + 150, w: 100, h: 100, type: 'COVER_FULL' });
           obstacles.push({ x: offsetX + 150, y: offsetY + h - 250, w: 100, h: 100, type: 'COVER_FULL' });
 
+          // Pickups: ammo by the fuel tanks, health out in the yards, double damage in the warehouse
+          createPad(offsetX + 320, offsetY + 200, 'AMMO');
+          createPad(offsetX + 320, offsetY + h - 200, 'AMMO');
+          createPad(offsetX + w - 150, offsetY + 300, 'HEALTH');
+          createPad(offsetX + w - 150, offsetY + h - 300, 'HEALTH');
+          createPad(cx - 400, cy, 'ARMOR');
+          createPad(cx, cy, 'DAMAGE_BOOST');
+
       } else if (mapId === MapId.ARCTIC) {
           createBuilding(offsetX + w/2 - 300, offsetY + 100, 600, 200, 2, ['bottom']); // North Base
           createBuilding(offsetX + w/2 - 300, offsetY + h - 300, 600, 200, 2, ['top']); // South Base
           
           // Ice Fields
           for(let i=0; i<15; i++) {
-               const x = offsetX + Math.random() * (w - 400) + 200;
-               const y = offsetY + Math.random() * (h - 600) + 300;
+               const x = offsetX + rng() * (w - 400) + 200;
+               const y = offsetY + rng() * (h - 600) + 300;
                obstacles.push({ x, y, w: 60, h: 60, type: 'COVER_HALF' });
           }
 
@@ -272,6 +321,14 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
           // Generator in middle
           obstacles.push({ x: towerX + 30, y: towerY + 30, w: 60, h: 60, type: 'COVER_HALF' });
 
+          // Pickups: ammo in each base, health by the depot and mid-field, speed at the tower
+          createPad(offsetX + w/2, offsetY + 200, 'AMMO');
+          createPad(offsetX + w/2, offsetY + h - 200, 'AMMO');
+          createPad(supplyX + 150, supplyY - 60, 'HEALTH');
+          createPad(offsetX + w/2, offsetY + h/2, 'HEALTH');
+          createPad(towerX + 60, towerY + 170, 'ARMOR');
+          createPad(towerX + 60, towerY - 50, 'SPEED_BOOST');
+
 
       } else if (mapId === MapId.FOREST) {
           createBuilding(offsetX + 400, offsetY + 400, 200, 200, 1, ['right']); // Cabin 1
@@ -279,16 +336,16 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
           
           // Dense Trees
           for(let i=0; i<25; i++) {
-               const x = offsetX + Math.random() * (w - 100);
-               const y = offsetY + Math.random() * (h - 100);
+               const x = offsetX + rng() * (w - 100);
+               const y = offsetY + rng() * (h - 100);
                obstacles.push({ x, y, w: 40, h: 40, type: 'COVER_FULL' });
           }
 
           // Fallen Logs (Forest Details)
           for(let i=0; i<10; i++) {
-               const x = offsetX + Math.random() * (w - 200) + 100;
-               const y = offsetY + Math.random() * (h - 200) + 100;
-               createTreeLog(x, y, Math.random() > 0.5);
+               const x = offsetX + rng() * (w - 200) + 100;
+               const y = offsetY + rng() * (h - 200) + 100;
+               createTreeLog(x, y, rng() > 0.5);
           }
           
           // Ancient Ruins / Stone Pillars
@@ -300,6 +357,14 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
           obstacles.push({ x: offsetX + 100, y: offsetY + h - 300, w: 300, h: 10, type: 'COVER_HALF' });
           obstacles.push({ x: offsetX + 100, y: offsetY + h - 250, w: 300, h: 10, type: 'COVER_HALF' });
 
+          // Pickups: health in the cabins, ammo in the trenches and the far corner, double damage at the ruins
+          createPad(offsetX + 500, offsetY + 500, 'HEALTH');
+          createPad(offsetX + w - 500, offsetY + 700, 'HEALTH');
+          createPad(offsetX + 250, offsetY + h - 275, 'AMMO');
+          createPad(offsetX + w - 250, offsetY + 250, 'AMMO');
+          createPad(offsetX + w/2, offsetY + 300, 'ARMOR');
+          createPad(offsetX + w/2, offsetY + h/2 + 120, 'DAMAGE_BOOST');
+
       }
   };
 
@@ -313,12 +378,23 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
       // Add more random loot outdoors
       for(let i=0; i<50; i++) {
         const weaponTypes = Object.values(WeaponType).filter(w => w !== WeaponType.KNIFE);
-        const randWeapon = weaponTypes[Math.floor(Math.random() * weaponTypes.length)];
+        const randWeapon = weaponTypes[Math.floor(rng() * weaponTypes.length)];
         loot.push({
             id: `loot-wild-${i}`,
-            pos: { x: Math.random() * mapW, y: Math.random() * mapH },
+            pos: { x: rng() * mapW, y: rng() * mapH },
             radius: 10,
+            kind: 'WEAPON',
             weapon: randWeapon,
+            rarity: rollRarity(rng),
+            active: true
+        });
+      }
+      for(let i=0; i<30; i++) {
+        loot.push({
+            id: `loot-wild-med-${i}`,
+            pos: { x: rng() * mapW, y: rng() * mapH },
+            radius: 10,
+            kind: rng() > 0.5 ? 'MEDKIT' : 'PLATE',
             active: true
         });
       }
@@ -332,6 +408,9 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
   obstacles.push({ x: -50, y: 0, w: 50, h: mapH, type: 'WALL' }); // Left
   obstacles.push({ x: mapW, y: 0, w: 50, h: mapH, type: 'WALL' }); // Right
 
+  // Random rocks and trees can land on a pad; nudge those into the open
+  pickups.forEach(pad => { pad.pos = snapLanding({ buildings, obstacles, loot, mapWidth: mapW, mapHeight: mapH }, pad.pos); });
+
   // --- CONTROL POINTS (Standard Locations for now) ---
   controlPoints.push({
     id: 'A',
@@ -363,25 +442,25 @@ export const generateMap = (mapId: MapId = MapId.URBAN, mode: GameMode = GameMod
     name: 'CHARLIE'
   });
 
-  return { buildings, obstacles, controlPoints, mapTheme, mapWidth: mapW, mapHeight: mapH, loot };
+  return { buildings, obstacles, controlPoints, mapTheme, mapWidth: mapW, mapHeight: mapH, loot, pickups };
 };
 
-export const getSpawnPoint = (team: Team, mapW: number = WORLD_WIDTH, mapH: number = WORLD_HEIGHT): Vector2 => {
+export const getSpawnPoint = (team: Team, mapW: number, mapH: number, rng: Rng): Vector2 => {
   if (team === Team.ALLIED) {
     return {
-      x: Math.random() * (mapW - 200) + 100,
-      y: mapH - 100 - Math.random() * 200
+      x: rng() * (mapW - 200) + 100,
+      y: mapH - 100 - rng() * 200
     };
   } else if (team === Team.AXIS) {
     return {
-      x: Math.random() * (mapW - 200) + 100,
-      y: 100 + Math.random() * 200
+      x: rng() * (mapW - 200) + 100,
+      y: 100 + rng() * 200
     };
   } else {
      // NONE / Random (FFA/BR)
      return {
-         x: Math.random() * (mapW - 200) + 100,
-         y: Math.random() * (mapH - 200) + 100
+         x: rng() * (mapW - 200) + 100,
+         y: rng() * (mapH - 200) + 100
      };
   }
 };
@@ -0,0 +1,115 @@
+
+import { GameSetup, GameSettings, GameMode, MapId, Team, WeaponType, Player, PlayerInput } from '../types';
+import { TICK_RATE, CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { createInitialState, updateGame, getMatchOutcome } from './engine';
+
+// --- HEADLESS MATCH RUNNER ---
+// Drives the engine without a browser so bots can play each other for balance numbers.
+
+const TICK_MS = 1000 / TICK_RATE;
+const IDLE_INPUT: PlayerInput = { keys: {}, mouse: { x: 0, y: 0 }, mouseDown: false };
+
+export interface MatchResult {
+  seed: number;
+  mode: GameMode;
+  mapId: MapId;
+  winner: Team;
+  winnerIds: string[];
+  durationMs: number;
+  players: { id: string; team: Team; weapon: WeaponType; operatorId: string; kills: number; deaths: number }[];
+  kills: { killerId: string | null; victimId: string; weapon: WeaponType | null; victimWeapon: WeaponType }[];
+}
+
+interface WinLossStats {
+  matches: number;
+  wins: number;
+  kills: number;
+  deaths: number;
+}
+
+export interface BalanceReport {
+  matches: number;
+  weapons: Record<string, WinLossStats>;
+  operators: Record<string, WinLossStats>;
+  maps: Record<string, { matches: number; wins: Record<Team, number>; kills: number; avgDurationSec: number }>;
+}
+
+const isSoloMode = (mode: GameMode) => mode === GameMode.FFA || mode === GameMode.GUN_GAME || mode === GameMode.BATTLE_ROYALE;
+
+// Team modes: everyone on the winning side. Solo modes: the last one standing (BR) or the top fragger.
+const getWinnerIds = (mode: GameMode, winner: Team, players: Player[]): string[] => {
+  if (!isSoloMode(mode)) {
+    return winner === Team.NONE ? [] : players.filter(p => p.team === winner).map(p => p.id);
+  }
+  if (mode === GameMode.BATTLE_ROYALE) {
+    return players.filter(p => p.active).map(p => p.id);
+  }
+  const topKills = Math.max(...players.map(p => p.kills));
+  return players.filter(p => p.kills === topKills).map(p => p.id);
+};
+
+// Plays one bots-only match to completion. maxDurationMs guards against stalemates.
+export const runMatch = (setup: GameSetup, settings: GameSettings, maxDurationMs: number = 1080 * 1000): MatchResult => {
+  let state = createInitialState({ ...setup, botsOnly: true }, settings);
+  const kills: MatchResult['kills'] = [];
+  let outcome: Team | null = null;
+
+  while (outcome === null && state.time < maxDurationMs) {
+    state = updateGame(state, IDLE_INPUT, TICK_MS, settings, CANVAS_WIDTH, CANVAS_HEIGHT);
+    state.events.forEach(e => {
+      if (e.type === 'KILL') kills.push({ killerId: e.killerId, victimId: e.victimId, weapon: e.weapon, victimWeapon: e.victimWeapon });
+    });
+    outcome = getMatchOutcome(state);
+  }
+
+  const winner = outcome ?? Team.NONE;
+  return {
+    seed: setup.seed,
+    mode: setup.mode,
+    mapId: setup.mapId,
+    winner,
+    winnerIds: getWinnerIds(setup.mode, winner, state.players),
+    durationMs: Math.round(state.time),
+    players: state.players.map(p => ({ id: p.id, team: p.team, weapon: p.weapon, operatorId: p.operatorId, kills: p.kills, deaths: p.deaths })),
+    kills
+  };
+};
+
+const emptyStats = (): WinLossStats => ({ matches: 0, wins: 0, kills: 0, deaths: 0 });
+
+// Folds match results into per-weapon, per-operator and per-map tallies.
+// Weapon kills/deaths come from the kill events (weapons change mid-match in Gun Game and BR);
+// weapon and operator win rates use what each player was carrying when the match ended.
+export const buildBalanceReport = (results: MatchResult[]): BalanceReport => {
+  const report: BalanceReport = { matches: results.length, weapons: {}, operators: {}, maps: {} };
+  const weapon = (w: WeaponType) => report.weapons[w] ??= emptyStats();
+  const operator = (id: string) => report.operators[id] ??= emptyStats();
+
+  results.forEach(result => {
+    result.players.forEach(p => {
+      const won = result.winnerIds.includes(p.id);
+      const w = weapon(p.weapon);
+      w.matches++;
+      if (won) w.wins++;
+
+      const op = operator(p.operatorId);
+      op.matches++;
+      op.kills += p.kills;
+      op.deaths += p.deaths;
+      if (won) op.wins++;
+    });
+
+    result.kills.forEach(k => {
+      if (k.weapon) weapon(k.weapon).kills++;
+      weapon(k.victimWeapon).deaths++;
+    });
+
+    const map = report.maps[result.mapId] ??= { matches: 0, wins: { [Team.ALLIED]: 0, [Team.AXIS]: 0, [Team.NONE]: 0 }, kills: 0, avgDurationSec: 0 };
+    map.avgDurationSec = (map.avgDurationSec * map.matches + result.durationMs / 1000) / (map.matches + 1);
+    map.matches++;
+    map.wins[result.winner]++;
+    map.kills += result.kills.length;
+  });
+
+  return report;
+};
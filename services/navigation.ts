@@ -0,0 +1,241 @@
+
+import { GameState, Obstacle, Vector2 } from '../types';
+import { PLAYER_RADIUS } from '../constants';
+import { checkRectCollide, segmentRectIntersection } from './geometry';
+import { getObstacleGrid, getSegmentBounds } from './spatialGrid';
+
+// --- NAVIGATION ---
+// Bots plan over a walkability grid built from the map's obstacles. A cell is open when a
+// player standing on its centre touches nothing solid, so doorways and the gaps between
+// containers come out as open cells and A* threads through them.
+
+const NAV_CELL_SIZE = 20; // Small enough that a 60px doorway always has an open cell for a 16px player
+const SNAP_SEARCH_CELLS = 8; // How far to look for an open cell when a point sits inside an obstacle
+const DIAGONAL_COST = Math.SQRT2;
+
+type NavMap = Pick<GameState, 'obstacles' | 'mapWidth' | 'mapHeight'>;
+
+export interface NavGrid {
+  cols: number;
+  rows: number;
+  blocked: Uint8Array;
+}
+
+const isSolid = (o: Obstacle) => o.type !== 'WINDOW';
+
+// Built once per map and cached against its obstacle list, like the obstacle grid
+const navGrids = new WeakMap<Obstacle[], NavGrid>();
+
+export const getNavGrid = (map: NavMap): NavGrid => {
+  let grid = navGrids.get(map.obstacles);
+  if (!grid) {
+    const cols = Math.ceil(map.mapWidth / NAV_CELL_SIZE);
+    const rows = Math.ceil(map.mapHeight / NAV_CELL_SIZE);
+    const blocked = new Uint8Array(cols * rows);
+    for (let cy = 0; cy < rows; cy++) {
+      for (let cx = 0; cx < cols; cx++) {
+        if (!isStandable(map, cellCentre(cx, cy))) blocked[cy * cols + cx] = 1;
+      }
+    }
+    grid = { cols, rows, blocked };
+    navGrids.set(map.obstacles, grid);
+  }
+  return grid;
+};
+
+const cellCentre = (cx: number, cy: number): Vector2 => ({ x: (cx + 0.5) * NAV_CELL_SIZE, y: (cy + 0.5) * NAV_CELL_SIZE });
+
+const cellIndexAt = (grid: NavGrid, p: Vector2) => {
+  const cx = Math.max(0, Math.min(grid.cols - 1, Math.floor(p.x / NAV_CELL_SIZE)));
+  const cy = Math.max(0, Math.min(grid.rows - 1, Math.floor(p.y / NAV_CELL_SIZE)));
+  return cy * grid.cols + cx;
+};
+
+// Nearest open cell to the given one, searching outward ring by ring. -1 if there is none close by.
+const snapToOpenCell = (grid: NavGrid, index: number) => {
+  if (!grid.blocked[index]) return index;
+  const cx = index % grid.cols;
+  const cy = Math.floor(index / grid.cols);
+  for (let r = 1; r <= SNAP_SEARCH_CELLS; r++) {
+    let best = -1;
+    let bestD = Infinity;
+    for (let y = cy - r; y <= cy + r; y++) {
+      for (let x = cx - r; x <= cx + r; x++) {
+        if (Math.max(Math.abs(x - cx), Math.abs(y - cy)) !== r) continue; // Ring only
+        if (x < 0 || y < 0 || x >= grid.cols || y >= grid.rows) continue;
+        const i = y * grid.cols + x;
+        const d = (x - cx) ** 2 + (y - cy) ** 2;
+        if (!grid.blocked[i] && d < bestD) {
+          best = i;
+          bestD = d;
+        }
+      }
+    }
+    if (best !== -1) return best;
+  }
+  return -1;
+};
+
+// True if a player could stand at this point without overlapping anything solid
+export const isStandable = (map: NavMap, p: Vector2): boolean => {
+  const body = { x: p.x, y: p.y, r: PLAYER_RADIUS };
+  return !getObstacleGrid(map.obstacles).queryRadius(p, PLAYER_RADIUS).some(o => isSolid(o) && checkRectCollide(body, o));
+};
+
+// True if a player could walk the straight line a -> b without touching anything solid
+export const hasClearPath = (map: NavMap, a: Vector2, b: Vector2): boolean => {
+  for (const o of getObstacleGrid(map.obstacles).query(getSegmentBounds(a, b, PLAYER_RADIUS))) {
+    if (isSolid(o) && segmentRectIntersection(a, b, o, PLAYER_RADIUS) !== null) return false;
+  }
+  return true;
+};
+
+// --- A* ---
+// Scratch buffers are shared between searches; a generation stamp marks which entries are live.
+let scratchSize = 0;
+let gScore = new Float64Array(0);
+let parent = new Int32Array(0);
+let seen = new Uint32Array(0);
+let closed = new Uint32Array(0);
+let generation = 0;
+
+const prepareScratch = (size: number) => {
+  if (size > scratchSize) {
+    scratchSize = size;
+    gScore = new Float64Array(size);
+    parent = new Int32Array(size);
+    seen = new Uint32Array(size);
+    closed = new Uint32Array(size);
+    generation = 0;
+  }
+  generation++;
+};
+
+// Min-heap of cell indices ordered by f score
+class OpenSet {
+  private nodes: number[] = [];
+  private scores: number[] = [];
+
+  get size() {
+    return this.nodes.length;
+  }
+
+  push(node: number, score: number) {
+    const { nodes, scores } = this;
+    let i = nodes.length;
+    nodes.push(node);
+    scores.push(score);
+    while (i > 0) {
+      const up = (i - 1) >> 1;
+      if (scores[up] <= score) break;
+      nodes[i] = nodes[up];
+      scores[i] = scores[up];
+      i = up;
+    }
+    nodes[i] = node;
+    scores[i] = score;
+  }
+
+  pop(): number {
+    const { nodes, scores } = this;
+    const top = nodes[0];
+    const lastNode = nodes.pop()!;
+    const lastScore = scores.pop()!;
+    const n = nodes.length;
+    if (n > 0) {
+      let i = 0;
+      while (true) {
+        let child = 2 * i + 1;
+        if (child >= n) break;
+        if (child + 1 < n && scores[child + 1] < scores[child]) child++;
+        if (scores[child] >= lastScore) break;
+        nodes[i] = nodes[child];
+        scores[i] = scores[child];
+        i = child;
+      }
+      nodes[i] = lastNode;
+      scores[i] = lastScore;
+    }
+    return top;
+  }
+}
+
+const NEIGHBOURS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, DIAGONAL_COST], [1, -1, DIAGONAL_COST], [-1, 1, DIAGONAL_COST], [-1, -1, DIAGONAL_COST]
+];
+
+const octile = (grid: NavGrid, a: number, b: number) => {
+  const dx = Math.abs((a % grid.cols) - (b % grid.cols));
+  const dy = Math.abs(Math.floor(a / grid.cols) - Math.floor(b / grid.cols));
+  return Math.max(dx, dy) + (DIAGONAL_COST - 1) * Math.min(dx, dy);
+};
+
+const searchCells = (grid: NavGrid, start: number, goal: number): number[] | null => {
+  const { cols, rows, blocked } = grid;
+  prepareScratch(cols * rows);
+  const open = new OpenSet();
+  gScore[start] = 0;
+  parent[start] = -1;
+  seen[start] = generation;
+  open.push(start, octile(grid, start, goal));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (closed[current] === generation) continue;
+    if (current === goal) {
+      const cells: number[] = [];
+      for (let c = goal; c !== -1; c = parent[c]) cells.push(c);
+      return cells.reverse();
+    }
+    closed[current] = generation;
+
+    const cx = current % cols;
+    const cy = Math.floor(current / cols);
+    for (const [ox, oy, cost] of NEIGHBOURS) {
+      const nx = cx + ox;
+      const ny = cy + oy;
+      if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+      const next = ny * cols + nx;
+      if (blocked[next] || closed[next] === generation) continue;
+      // No cutting corners past a blocked cell
+      if (ox !== 0 && oy !== 0 && (blocked[cy * cols + nx] || blocked[ny * cols + cx])) continue;
+
+      const g = gScore[current] + cost;
+      if (seen[next] === generation && g >= gScore[next]) continue;
+      seen[next] = generation;
+      gScore[next] = g;
+      parent[next] = current;
+      open.push(next, g + octile(grid, next, goal));
+    }
+  }
+  return null;
+};
+
+// Waypoints from `from` toward `to`, with straight runs collapsed. Empty when `to` is in plain
+// sight; null when there is no way there (the caller decides whether to walk straight anyway).
+export const findPath = (map: NavMap, from: Vector2, to: Vector2): Vector2[] | null => {
+  if (hasClearPath(map, from, to)) return [];
+
+  const grid = getNavGrid(map);
+  const start = snapToOpenCell(grid, cellIndexAt(grid, from));
+  const goal = snapToOpenCell(grid, cellIndexAt(grid, to));
+  if (start === -1 || goal === -1) return null;
+
+  const cells = searchCells(grid, start, goal);
+  if (!cells) return null;
+  const points = cells.map(i => cellCentre(i % grid.cols, Math.floor(i / grid.cols)));
+
+  // String-pull: from each anchor, skip ahead to the furthest point still in plain sight
+  const path: Vector2[] = [];
+  let anchor = from;
+  let i = 0;
+  while (i < points.length) {
+    let next = i;
+    while (next + 1 < points.length && hasClearPath(map, anchor, points[next + 1])) next++;
+    path.push(points[next]);
+    anchor = points[next];
+    i = next + 1;
+  }
+  return path;
+};
@@ -0,0 +1,92 @@
+
+import { BoostType, GameMode, GameState, Player, PickupPad, PickupType, Vector2 } from '../types';
+import { PICKUPS, MAX_ARMOR } from '../constants';
+import { dist } from './geometry';
+import { getDisplayName } from './botIdentity';
+import { getReserveShortfall, restockReserve } from './ammo';
+
+// --- PICKUP PADS ---
+// Each map lays out a few fixed pads for the respawn modes: ammo, health, armor and the odd
+// power-up. Walking over a stocked pad takes what it holds, and the pad restocks on a timer.
+
+const PICKUP_MODES = [GameMode.TDM, GameMode.FFA, GameMode.DOMINATION];
+const SEEK_RANGE = 800; // Bots don't cross the map for a pad
+const SEEK_THRESHOLD = 0.25; // Worth below this once distance is counted: not worth the detour
+
+export const hasPickups = (mode: GameMode) => PICKUP_MODES.includes(mode);
+
+export const hasBoost = (p: Player, type: BoostType, now: number) => (p.boosts?.[type] ?? 0) > now;
+
+export const getBoostMult = (p: Player, type: BoostType, now: number) => hasBoost(p, type, now) ? PICKUPS[type].amount : 1;
+
+// How much `p` wants what the pad holds, 0 (nothing in it for them) to 1. A power-up that's
+// already running is only worth the time it would add back.
+const getPickupValue = (p: Player, type: PickupType, now: number) => {
+  switch (type) {
+    case 'AMMO': return 0.5 * getReserveShortfall(p);
+    case 'HEALTH': return 1 - p.health / p.maxHealth;
+    case 'ARMOR': return 0.6 * (1 - p.armor / MAX_ARMOR);
+    default: {
+      if (!hasBoost(p, type, now)) return 1;
+      const left = (p.boosts?.[type] ?? 0) - now;
+      return Math.max(0, 1 - left / (PICKUPS[type].durationMs ?? left));
+    }
+  }
+};
+
+const applyPickup = (p: Player, type: PickupType, now: number) => {
+  const stats = PICKUPS[type];
+  switch (type) {
+    case 'AMMO':
+      restockReserve(p);
+      break;
+    case 'HEALTH':
+      p.health = Math.min(p.maxHealth, p.health + stats.amount);
+      break;
+    case 'ARMOR':
+      p.armor = Math.min(MAX_ARMOR, p.armor + stats.amount);
+      break;
+    default:
+      p.boosts = { ...p.boosts, [type]: now + (stats.durationMs ?? 0) };
+  }
+};
+
+// Restocks pads whose time is up and hands stocked ones to the first player standing on them
+// who has a use for them. Power-ups are called out in the kill feed.
+export const updatePickups = (state: GameState, now: number) => {
+  state.pickups.forEach(pad => {
+    if (!pad.active) {
+      if (now < pad.respawnAt) return;
+      pad.active = true;
+    }
+    const taker = state.players.find(p => p.active && dist(p.pos, pad.pos) < p.radius + pad.radius && getPickupValue(p, pad.type, now) > 0);
+    if (!taker) return;
+    applyPickup(taker, pad.type, now);
+    pad.active = false;
+    pad.respawnAt = now + PICKUPS[pad.type].respawnMs;
+    const boost = PICKUPS[pad.type].durationMs !== undefined;
+    state.events.push({ type: 'SOUND', key: boost ? 'CAPTURE' : 'RELOAD' });
+    if (boost) {
+      state.killFeed.unshift(`${getDisplayName(taker)} picked up ${PICKUPS[pad.type].name.toUpperCase()}`);
+      if (state.killFeed.length > 5) state.killFeed.pop();
+    }
+  });
+};
+
+// The stocked pad most worth a detour for `bot`, weighing what it holds against how far
+// away it is. Null if nothing is worth it.
+export const getPickupTarget = (bot: Player, state: GameState): Vector2 | null => {
+  let best: PickupPad | null = null;
+  let bestScore = SEEK_THRESHOLD;
+  for (const pad of state.pickups) {
+    if (!pad.active) continue;
+    const d = dist(bot.pos, pad.pos);
+    if (d > SEEK_RANGE) continue;
+    const score = getPickupValue(bot, pad.type, state.time) * (1 - d / (SEEK_RANGE * 2));
+    if (score > bestScore) {
+      best = pad;
+      bestScore = score;
+    }
+  }
+  return best ? best.pos : null;
+};
@@ -0,0 +1,28 @@
+
+// --- SEEDED RANDOM ---
+// Mulberry32: tiny, fast and good enough for gameplay. The whole generator state is a
+// single 32-bit integer, so it can live on GameState and be copied with the rest of a match.
+
+export type Rng = () => number;
+
+export interface RngHolder {
+  rngState: number;
+}
+
+// Advances the holder's state and returns a float in [0, 1)
+export const nextRandom = (holder: RngHolder): number => {
+  holder.rngState = (holder.rngState + 0x6D2B79F5) >>> 0;
+  let t = holder.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Standalone generator for code that only needs a stream of numbers (e.g. map generation)
+export const createRng = (seed: number): Rng => {
+  const holder: RngHolder = { rngState: seed >>> 0 };
+  return () => nextRandom(holder);
+};
+
+// New match seeds come from the platform RNG; everything after that is deterministic
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
@@ -0,0 +1,75 @@
+
+import { GameSetup, GameSettings, PlayerInput, ReplayFrame, ReplayRecording, Team } from '../types';
+
+// --- MATCH REPLAYS ---
+// A match is fully determined by its setup (seed included), the settings and the human input
+// on every tick, so that is all a recording holds. Playback re-runs the engine.
+
+export interface ReplayTickInput {
+  input: PlayerInput;
+  viewW: number;
+  viewH: number;
+}
+
+const sameFrame = (a: ReplayFrame, b: ReplayFrame) =>
+  a[1].length === b[1].length && a[1].every((k, i) => k === b[1][i]) &&
+  a[2] === b[2] && a[3] === b[3] && a[4] === b[4] && a[5] === b[5] && a[6] === b[6] && a[7] === b[7] && a[8] === b[8];
+
+export const createReplayRecorder = (setup: GameSetup, settings: GameSettings, tickMs: number) => {
+  const frames: ReplayFrame[] = [];
+  let tickCount = 0;
+
+  return {
+    // Call once per tick with exactly what is handed to updateGame
+    record(input: PlayerInput, viewW: number, viewH: number) {
+      const keys = Object.keys(input.keys).filter(k => input.keys[k]).sort();
+      const frame: ReplayFrame = [tickCount, keys, input.mouse.x, input.mouse.y, input.mouseDown ? 1 : 0, viewW, viewH];
+      if (input.command || input.landing) frame.push(input.command ? { ...input.command } : null);
+      if (input.landing) frame.push({ ...input.landing });
+      const last = frames[frames.length - 1];
+      if (!last || !sameFrame(last, frame)) frames.push(frame);
+      tickCount++;
+    },
+
+    finish(winner?: Team): ReplayRecording {
+      return {
+        id: Date.now().toString(),
+        timestamp: Date.now(),
+        setup,
+        settings,
+        tickMs,
+        tickCount,
+        frames: frames.slice(),
+        winner
+      };
+    }
+  };
+};
+
+// Input that was live on the given tick (binary search for the last stored frame at or before it)
+export const getReplayInput = (recording: ReplayRecording, tick: number): ReplayTickInput => {
+  const { frames } = recording;
+  if (frames.length === 0) return { input: { keys: {}, mouse: { x: 0, y: 0 }, mouseDown: false }, viewW: 0, viewH: 0 };
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (frames[mid][0] <= tick) lo = mid;
+    else hi = mid - 1;
+  }
+  const [frameTick, keys, mouseX, mouseY, mouseDown, viewW, viewH, command, landing] = frames[lo];
+  const keyMap: Record<string, boolean> = {};
+  keys.forEach(k => keyMap[k] = true);
+  return {
+    // Orders and landing picks are one-shot: they belong to the tick they were given on only
+    input: {
+      keys: keyMap,
+      mouse: { x: mouseX, y: mouseY },
+      mouseDown: mouseDown === 1,
+      command: frameTick === tick ? command ?? null : null,
+      landing: frameTick === tick ? landing ?? null : null
+    },
+    viewW,
+    viewH
+  };
+};
@@ -0,0 +1,87 @@
+
+import { GameMode, GameSettings, GameState, Player } from '../types';
+import { WEAPONS } from '../constants';
+import { pickSpawnPoint } from './spawnSelection';
+import { refillLoadout } from './inventory';
+import { createReserve, getCarriedWeapons } from './ammo';
+import { Rng } from './random';
+
+// --- RESPAWNS ---
+// The fallen queue up with a time to come back. Objective modes can optionally bring
+// people back in waves, so a team regroups instead of trickling in one at a time.
+
+// Shortest time spent dead, unless the settings say otherwise. No entry means no respawns (Battle Royale).
+export const DEFAULT_RESPAWN_DELAYS: Partial<Record<GameMode, number>> = {
+  [GameMode.TDM]: 3000,
+  [GameMode.FFA]: 2500,
+  [GameMode.GUN_GAME]: 2000,
+  [GameMode.DOMINATION]: 4000,
+  [GameMode.HARDPOINT]: 4000
+};
+
+// With wave respawns on, the dead come back together on this beat
+const WAVE_MS: Partial<Record<GameMode, number>> = {
+  [GameMode.DOMINATION]: 10000,
+  [GameMode.HARDPOINT]: 10000
+};
+
+export const SPAWN_PROTECTION_MS = 3000;
+
+export const hasRespawns = (mode: GameMode) => DEFAULT_RESPAWN_DELAYS[mode] !== undefined;
+
+export const isSpawnProtected = (p: Player, now: number) => p.spawnProtectedUntil !== undefined && now < p.spawnProtectedUntil;
+
+const getRespawnDelay = (mode: GameMode, settings: GameSettings) =>
+  settings.respawnDelays?.[mode] ?? DEFAULT_RESPAWN_DELAYS[mode] ?? 0;
+
+const getRespawnTime = (mode: GameMode, settings: GameSettings, diedAt: number) => {
+  const earliest = diedAt + getRespawnDelay(mode, settings);
+  const waveMs = WAVE_MS[mode];
+  if (!settings.waveRespawns || !waveMs) return earliest;
+  return Math.ceil(earliest / waveMs) * waveMs;
+};
+
+// When the player comes back, or null if they are alive or won't respawn
+export const getRespawnTicket = (state: GameState, playerId: string) =>
+  state.respawnQueue.find(t => t.playerId === playerId) ?? null;
+
+const respawn = (state: GameState, p: Player, now: number, rng: Rng) => {
+  p.active = true;
+  p.health = p.maxHealth;
+  p.armor = 0;
+  p.lastDamagedAt = undefined;
+  p.boosts = undefined;
+  p.pos = pickSpawnPoint(state, p, rng);
+  if (p.inventory) refillLoadout(p);
+  else p.ammo = WEAPONS[p.weapon].magSize;
+  p.reserve = createReserve(getCarriedWeapons(p));
+  p.isReloading = false;
+  p.spawnProtectedUntil = now + SPAWN_PROTECTION_MS;
+  if (p.isBot) {
+    // A fresh life: forget the fight that killed it
+    p.state = 'PATROL';
+    p.target = null;
+    p.path = null;
+    p.cover = null;
+    p.aim = null;
+    p.lastKnownEnemyPos = null;
+  }
+};
+
+// Queues anyone who just went down and brings back everyone whose time has come
+export const updateRespawns = (state: GameState, now: number, settings: GameSettings, rng: Rng) => {
+  if (!hasRespawns(state.mode)) return;
+
+  state.players.forEach(p => {
+    if (!p.active && !state.respawnQueue.some(t => t.playerId === p.id)) {
+      state.respawnQueue.push({ playerId: p.id, respawnAt: getRespawnTime(state.mode, settings, now), wave: !!settings.waveRespawns && !!WAVE_MS[state.mode] });
+    }
+  });
+
+  state.respawnQueue = state.respawnQueue.filter(ticket => {
+    if (now < ticket.respawnAt) return true;
+    const p = state.players.find(pl => pl.id === ticket.playerId);
+    if (p && !p.active) respawn(state, p, now, rng);
+    return false;
+  });
+};
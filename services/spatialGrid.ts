@@ -0,0 +1,119 @@
+
+import { Obstacle, Player, Vector2 } from '../types';
+import { Rect, segmentRectIntersection } from './geometry';
+
+// --- SPATIAL PARTITIONING ---
+// Uniform grid buckets so collision, targeting and vision only look at things nearby
+// instead of every obstacle and player on a 7500x5000 Battle Royale map.
+
+const OBSTACLE_CELL_SIZE = 100;
+const PLAYER_CELL_SIZE = 200;
+
+// Offsets keep keys positive for the boundary walls that sit just outside the map
+const cellKey = (cx: number, cy: number) => (cx + 32768) * 65536 + (cy + 32768);
+
+export class SpatialGrid<T> {
+  private cells = new Map<number, T[]>();
+  private itemCells = new Map<T, number[]>();
+
+  constructor(private readonly cellSize: number) {}
+
+  insert(item: T, bounds: Rect) {
+    const keys: number[] = [];
+    this.forEachCell(bounds, key => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = [];
+        this.cells.set(key, cell);
+      }
+      cell.push(item);
+      keys.push(key);
+    });
+    this.itemCells.set(item, keys);
+  }
+
+  remove(item: T) {
+    const keys = this.itemCells.get(item);
+    if (!keys) return;
+    keys.forEach(key => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      const idx = cell.indexOf(item);
+      if (idx !== -1) cell.splice(idx, 1);
+    });
+    this.itemCells.delete(item);
+  }
+
+  // Moving entities re-bucket themselves after each position change
+  update(item: T, bounds: Rect) {
+    this.remove(item);
+    this.insert(item, bounds);
+  }
+
+  // Everything whose bucket overlaps the bounds. Callers still do the exact test.
+  query(bounds: Rect): T[] {
+    const found = new Set<T>();
+    this.forEachCell(bounds, key => {
+      const cell = this.cells.get(key);
+      if (cell) cell.forEach(item => found.add(item));
+    });
+    return Array.from(found);
+  }
+
+  queryRadius(center: Vector2, radius: number): T[] {
+    return this.query({ x: center.x - radius, y: center.y - radius, w: radius * 2, h: radius * 2 });
+  }
+
+  private forEachCell(bounds: Rect, fn: (key: number) => void) {
+    const minX = Math.floor(bounds.x / this.cellSize);
+    const maxX = Math.floor((bounds.x + bounds.w) / this.cellSize);
+    const minY = Math.floor(bounds.y / this.cellSize);
+    const maxY = Math.floor((bounds.y + bounds.h) / this.cellSize);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        fn(cellKey(cx, cy));
+      }
+    }
+  }
+}
+
+// Obstacles never move, so each map's grid is built once and cached against its obstacle list.
+// Keyed weakly so cloned states (replay checkpoints) just build their own.
+const obstacleGrids = new WeakMap<Obstacle[], SpatialGrid<Obstacle>>();
+
+export const getObstacleGrid = (obstacles: Obstacle[]): SpatialGrid<Obstacle> => {
+  let grid = obstacleGrids.get(obstacles);
+  if (!grid) {
+    grid = new SpatialGrid<Obstacle>(OBSTACLE_CELL_SIZE);
+    for (const o of obstacles) grid.insert(o, o);
+    obstacleGrids.set(obstacles, grid);
+  }
+  return grid;
+};
+
+export const getPlayerBounds = (p: Player): Rect => ({ x: p.pos.x - p.radius, y: p.pos.y - p.radius, w: p.radius * 2, h: p.radius * 2 });
+
+// Rebuilt every tick from the active players, then kept current as they move
+export const createPlayerGrid = (players: Player[]): SpatialGrid<Player> => {
+  const grid = new SpatialGrid<Player>(PLAYER_CELL_SIZE);
+  for (const p of players) {
+    if (p.active) grid.insert(p, getPlayerBounds(p));
+  }
+  return grid;
+};
+
+export const getSegmentBounds = (p1: Vector2, p2: Vector2, pad: number = 0): Rect => ({
+  x: Math.min(p1.x, p2.x) - pad,
+  y: Math.min(p1.y, p2.y) - pad,
+  w: Math.abs(p2.x - p1.x) + pad * 2,
+  h: Math.abs(p2.y - p1.y) + pad * 2
+});
+
+// Line of sight: true if a solid wall blocks the straight line between two points
+export const checkWallBetween = (p1: Vector2, p2: Vector2, obstacles: Obstacle[]): boolean => {
+    for (const o of getObstacleGrid(obstacles).query(getSegmentBounds(p1, p2))) {
+        if (o.type !== 'WALL') continue;
+        if (segmentRectIntersection(p1, p2, o) !== null) return true;
+    }
+    return false;
+};
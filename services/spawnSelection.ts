@@ -0,0 +1,118 @@
+
+import { GameMode, GameState, Player, Team, Vector2 } from '../types';
+import { PLAYER_RADIUS } from '../constants';
+import { getSpawnPoint } from './mapGenerator';
+import { dist } from './geometry';
+import { checkWallBetween } from './spatialGrid';
+import { isStandable } from './navigation';
+import { Rng } from './random';
+
+// --- SPAWN SELECTION ---
+// Rolls a handful of candidate points on the team's side and keeps the one that is least
+// likely to get the player shot on arrival: away from enemies and out of their sight, near
+// friends, and near the objectives the team is playing for.
+
+const CANDIDATES = 12;
+const DANGER_RADIUS = 400; // Enemies closer than this make a spot hot whether they can see it or not
+const SIGHT_RANGE = 700; // Far enough to cover the best bot eyesight
+const FRIEND_RADIUS = 300;
+const MAX_FRIEND_BONUS = 3;
+
+// Weights for each term of the score
+const WEIGHTS = { danger: 3, sighted: 2, distance: 1, friends: 0.5, objective: 1, jitter: 0.2 };
+
+// Spawn flips: when most of a team is camped in the other side's spawn, the sides swap
+const FLIP_DEPTH = 0.3; // Share of the map height counted as a team's spawn area
+const FLIP_SHARE = 0.5;
+const FLIP_COOLDOWN_MS = 30000;
+
+const isTeamMode = (mode: GameMode) => mode !== GameMode.FFA && mode !== GameMode.GUN_GAME && mode !== GameMode.BATTLE_ROYALE;
+
+const otherTeam = (team: Team) => team === Team.ALLIED ? Team.AXIS : Team.ALLIED;
+
+// Which edge of the map a team spawns from right now
+export const getSpawnSide = (state: GameState, team: Team) =>
+  team === Team.NONE || !state.spawnsFlipped ? team : otherTeam(team);
+
+const isHostile = (state: GameState, a: Player, b: Player) =>
+  a.id !== b.id && (!isTeamMode(state.mode) || a.team !== b.team);
+
+// Objectives worth spawning near: points the team holds, or the live hardpoint
+const getSpawnObjectives = (state: GameState, team: Team): Vector2[] => {
+  if (state.mode === GameMode.HARDPOINT) return state.controlPoints.filter(cp => cp.active).map(cp => cp.pos);
+  if (state.mode === GameMode.DOMINATION) return state.controlPoints.filter(cp => cp.team === team).map(cp => cp.pos);
+  return [];
+};
+
+const scoreSpawn = (state: GameState, p: Player, pos: Vector2, objectives: Vector2[], rng: Rng) => {
+  let score = 0;
+  let nearestEnemy = Infinity;
+  let friends = 0;
+
+  for (const other of state.players) {
+    if (!other.active) continue;
+    const d = dist(pos, other.pos);
+    if (isHostile(state, p, other)) {
+      nearestEnemy = Math.min(nearestEnemy, d);
+      if (d < DANGER_RADIUS) score -= WEIGHTS.danger * (1 - d / DANGER_RADIUS);
+      if (d < SIGHT_RANGE && !checkWallBetween(other.pos, pos, state.obstacles)) score -= WEIGHTS.sighted;
+    } else if (other.id !== p.id && d < FRIEND_RADIUS) {
+      friends++;
+    }
+  }
+
+  score += WEIGHTS.distance * Math.min(nearestEnemy, SIGHT_RANGE) / SIGHT_RANGE;
+  score += WEIGHTS.friends * Math.min(friends, MAX_FRIEND_BONUS);
+  if (objectives.length > 0) {
+    const nearest = Math.min(...objectives.map(o => dist(pos, o)));
+    score += WEIGHTS.objective * Math.max(0, 1 - nearest / Math.max(state.mapWidth, state.mapHeight));
+  }
+  // Break ties so two players dying together don't land on the same spot
+  return score + WEIGHTS.jitter * rng();
+};
+
+const isFreeSpot = (state: GameState, pos: Vector2) =>
+  isStandable(state, pos) && !state.players.some(o => o.active && dist(o.pos, pos) < PLAYER_RADIUS * 3);
+
+// Best of a few candidate spawns for `p`
+export const pickSpawnPoint = (state: GameState, p: Player, rng: Rng): Vector2 => {
+  const side = getSpawnSide(state, p.team);
+  const objectives = getSpawnObjectives(state, p.team);
+
+  let best: Vector2 | null = null;
+  let bestScore = -Infinity;
+  for (let i = 0; i < CANDIDATES; i++) {
+    const pos = getSpawnPoint(side, state.mapWidth, state.mapHeight, rng);
+    if (!isFreeSpot(state, pos)) continue;
+    const score = scoreSpawn(state, p, pos, objectives, rng);
+    if (score > bestScore) {
+      bestScore = score;
+      best = pos;
+    }
+  }
+  return best ?? getSpawnPoint(side, state.mapWidth, state.mapHeight, rng);
+};
+
+// Swaps spawn sides when one team has pushed deep into the other's. Team modes only.
+export const updateSpawnFlip = (state: GameState, now: number) => {
+  if (!isTeamMode(state.mode)) return;
+  if (state.spawnFlipTime !== null && now - state.spawnFlipTime < FLIP_COOLDOWN_MS) return;
+
+  const depth = state.mapHeight * FLIP_DEPTH;
+  // Allied spawns along the bottom edge unless flipped
+  const inSpawnOf = (pos: Vector2, team: Team) =>
+    getSpawnSide(state, team) === Team.ALLIED ? pos.y > state.mapHeight - depth : pos.y < depth;
+
+  for (const team of [Team.ALLIED, Team.AXIS]) {
+    const pushers = state.players.filter(p => p.active && p.team === team);
+    if (pushers.length === 0) continue;
+    const camped = pushers.filter(p => inSpawnOf(p.pos, otherTeam(team))).length;
+    if (camped / pushers.length > FLIP_SHARE) {
+      state.spawnsFlipped = !state.spawnsFlipped;
+      state.spawnFlipTime = now;
+      state.killFeed.unshift('SPAWNS FLIPPED');
+      if (state.killFeed.length > 5) state.killFeed.pop();
+      return;
+    }
+  }
+};
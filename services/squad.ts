@@ -0,0 +1,220 @@
+
+import { GameState, GameMode, Player, Team, Difficulty, ControlPoint, Vector2, SquadCommand } from '../types';
+import { dist, normalize } from './geometry';
+
+// --- SQUAD PLANNER ---
+// Every few seconds each team's bots are handed a role from the state of the objectives and
+// the score, so they spread out instead of all running at the same point.
+
+interface SquadCoordination {
+  planMs: number; // How often the team re-plans
+  coordinatedShare: number; // Fraction of the team that follows the plan; the rest freelance
+  helpRange: number; // How far a call for help carries (0 = nobody calls)
+}
+
+const COORDINATION: Record<Difficulty, SquadCoordination> = {
+  [Difficulty.RECRUIT]: { planMs: 6000, coordinatedShare: 0.4, helpRange: 0 },
+  [Difficulty.VETERAN]: { planMs: 3000, coordinatedShare: 0.75, helpRange: 600 },
+  [Difficulty.ELITE]: { planMs: 1500, coordinatedShare: 1, helpRange: 1000 }
+};
+
+const DEFEND_RING = 60; // Defenders spread around the point this far out
+const FLANK_OFFSET = 300; // How wide flankers swing before turning in
+const ESCORT_DISTANCE = 120;
+const HELP_COOLDOWN_MS = 3000;
+const MAX_HELP_RESPONDERS = 2;
+const FORMATION_RADIUS = 70; // Bots following or holding spread around the spot this far out
+const REGROUP_RADIUS = 150;
+const REGROUP_TIMEOUT_MS = 15000;
+
+const isTeamMode = (mode: GameMode) => mode !== GameMode.FFA && mode !== GameMode.GUN_GAME && mode !== GameMode.BATTLE_ROYALE;
+
+const centroid = (players: Player[]): Vector2 => ({
+  x: players.reduce((sum, p) => sum + p.pos.x, 0) / players.length,
+  y: players.reduce((sum, p) => sum + p.pos.y, 0) / players.length
+});
+
+const nearestTo = (pos: Vector2, points: ControlPoint[]) =>
+  points.reduce((best, cp) => dist(pos, cp.pos) < dist(pos, best.pos) ? cp : best);
+
+const planTeam = (state: GameState, team: Team) => {
+  const coordination = COORDINATION[state.difficulty];
+  const bots = state.players.filter(p => p.isBot && p.active && p.team === team);
+  bots.forEach(b => b.squad = null);
+  if (bots.length === 0) return;
+
+  // The first share of the roster (in a stable order) takes orders; everyone else freelances
+  let available = bots.slice(0, Math.ceil(bots.length * coordination.coordinatedShare));
+
+  // Someone sticks with the human
+  const human = state.players.find(p => !p.isBot && p.active && p.team === team);
+  if (human && available.length > 1) {
+    const escort = available.reduce((best, b) => dist(b.pos, human.pos) < dist(best.pos, human.pos) ? b : best);
+    escort.squad = { role: 'ESCORT', objectiveId: null, point: null };
+    available = available.filter(b => b !== escort);
+  }
+
+  if (state.mode !== GameMode.DOMINATION && state.mode !== GameMode.HARDPOINT) return;
+  const points = state.mode === GameMode.HARDPOINT ? state.controlPoints.filter(cp => cp.active) : state.controlPoints;
+  if (points.length === 0 || available.length === 0) return;
+
+  const enemyTeam = team === Team.ALLIED ? Team.AXIS : Team.ALLIED;
+  const owned = points.filter(cp => cp.team === team);
+  const contested = points.filter(cp => cp.team !== team);
+  const home = centroid(bots);
+
+  // Hold more of what we have when ahead, push harder when behind
+  const winning = state.scores[team] > state.scores[enemyTeam];
+  const defendShare = contested.length === 0 ? 1 : owned.length === 0 ? 0 : winning ? 0.5 : 0.3;
+  const defenderCount = Math.round(available.length * defendShare);
+
+  if (owned.length > 0) {
+    // Whoever is already closest to our points stays on them
+    const byDistance = available.slice().sort((a, b) => dist(a.pos, nearestTo(a.pos, owned).pos) - dist(b.pos, nearestTo(b.pos, owned).pos));
+    const defenders = byDistance.slice(0, defenderCount);
+    defenders.forEach((b, i) => {
+      const cp = owned[i % owned.length];
+      const angle = (Math.PI * 2 * Math.floor(i / owned.length)) / Math.max(1, Math.ceil(defenders.length / owned.length));
+      b.squad = {
+        role: 'DEFEND',
+        objectiveId: cp.id,
+        point: { x: cp.pos.x + Math.cos(angle) * DEFEND_RING, y: cp.pos.y + Math.sin(angle) * DEFEND_RING }
+      };
+    });
+    available = available.filter(b => !defenders.includes(b));
+  }
+  if (contested.length === 0 || available.length === 0) return;
+
+  // Attack the nearest point we don't hold; a big enough group splits across two
+  const targets = contested.slice().sort((a, b) => dist(home, a.pos) - dist(home, b.pos));
+  const groups = targets.length > 1 && available.length >= 4 ? 2 : 1;
+  available.forEach((b, i) => {
+    const cp = targets[i % groups];
+    const groupIndex = Math.floor(i / groups);
+    // Every third attacker comes in from the side, alternating sides
+    if (groupIndex % 3 === 2) {
+      const approach = normalize({ x: cp.pos.x - home.x, y: cp.pos.y - home.y });
+      const side = groupIndex % 2 === 0 ? 1 : -1;
+      b.squad = {
+        role: 'FLANK',
+        objectiveId: cp.id,
+        point: {
+          x: Math.max(0, Math.min(state.mapWidth, cp.pos.x - approach.y * FLANK_OFFSET * side - approach.x * 100)),
+          y: Math.max(0, Math.min(state.mapHeight, cp.pos.y + approach.x * FLANK_OFFSET * side - approach.y * 100))
+        }
+      };
+    } else {
+      b.squad = { role: 'ATTACK', objectiveId: cp.id, point: null };
+    }
+  });
+};
+
+// Re-plans both teams on the difficulty's cadence. Team modes only.
+export const updateSquads = (state: GameState, now: number, dt: number) => {
+  if (!isTeamMode(state.mode)) return;
+  const { planMs } = COORDINATION[state.difficulty];
+  if (now - dt > 0 && Math.floor(now / planMs) === Math.floor((now - dt) / planMs)) return;
+  planTeam(state, Team.ALLIED);
+  planTeam(state, Team.AXIS);
+};
+
+// Where the bot's role wants it right now, or null if it has no role and should freelance
+export const getSquadTarget = (bot: Player, state: GameState): Vector2 | null => {
+  const squad = bot.squad;
+  if (!squad) return null;
+
+  if (squad.role === 'ESCORT') {
+    const human = state.players.find(p => !p.isBot && p.active && p.team === bot.team);
+    if (!human) return null;
+    // Close enough: hold still rather than crowd them
+    return dist(bot.pos, human.pos) > ESCORT_DISTANCE ? human.pos : { ...bot.pos };
+  }
+
+  const cp = state.controlPoints.find(c => c.id === squad.objectiveId);
+  if (!cp) return null;
+  if (squad.role === 'DEFEND') return squad.point ?? cp.pos;
+  if (squad.role === 'FLANK' && squad.point && dist(bot.pos, cp.pos) > dist(squad.point, cp.pos) + 50) return squad.point;
+  return cp.pos;
+};
+
+// Teammates who drop what they are doing when `caller` gets into a fight. Rate-limited per caller.
+export const getHelpResponders = (caller: Player, state: GameState, now: number): Player[] => {
+  const { helpRange } = COORDINATION[state.difficulty];
+  if (helpRange <= 0 || !isTeamMode(state.mode)) return [];
+  if (caller.lastHelpCallTime !== undefined && now - caller.lastHelpCallTime < HELP_COOLDOWN_MS) return [];
+  caller.lastHelpCallTime = now;
+
+  return state.players
+    .filter(p => p.isBot && p.active && p.id !== caller.id && p.team === caller.team)
+    .filter(p => p.squad?.role !== 'DEFEND' && p.squad?.role !== 'ESCORT') // They have their own job
+    .filter(p => p.state !== 'ATTACK' && p.state !== 'COVER' && p.state !== 'RETREAT' && p.state !== 'ZONE_MOVE' && p.state !== 'ORDER')
+    .filter(p => dist(p.pos, caller.pos) < helpRange)
+    .sort((a, b) => dist(a.pos, caller.pos) - dist(b.pos, caller.pos))
+    .slice(0, MAX_HELP_RESPONDERS);
+};
+
+// --- SQUAD ORDERS ---
+// The human's ally bots drop their planner role while an order stands.
+
+const isOrderedBot = (p: Player, team: Team) => p.isBot && p.team === team;
+
+// Turns a command from the wheel or map into the standing order. Ignored outside team modes.
+export const applySquadCommand = (state: GameState, commander: Player, command: SquadCommand, now: number) => {
+  if (!isTeamMode(state.mode)) return;
+  if (command.type === 'CANCEL') {
+    state.squadOrder = null;
+    return;
+  }
+  if (command.type === 'ATTACK' && !state.controlPoints.some(cp => cp.id === command.objectiveId)) return;
+  state.squadOrder = {
+    type: command.type,
+    team: commander.team,
+    objectiveId: command.type === 'ATTACK' ? command.objectiveId! : null,
+    pos: command.type === 'HOLD' ? { ...(command.pos ?? commander.pos) } : null,
+    issuedAt: now
+  };
+};
+
+// Clears orders that have been carried out
+export const updateSquadOrder = (state: GameState, now: number) => {
+  const order = state.squadOrder;
+  if (!order) return;
+
+  if (order.type === 'ATTACK') {
+    const cp = state.controlPoints.find(c => c.id === order.objectiveId);
+    if (!cp || cp.team === order.team || (state.mode === GameMode.HARDPOINT && !cp.active)) state.squadOrder = null;
+  } else if (order.type === 'REGROUP') {
+    const human = state.players.find(p => !p.isBot && p.team === order.team);
+    const gathered = !!human && human.active && state.players
+      .filter(p => p.active && isOrderedBot(p, order.team))
+      .every(p => dist(p.pos, human.pos) < REGROUP_RADIUS);
+    if (gathered || now - order.issuedAt > REGROUP_TIMEOUT_MS) state.squadOrder = null;
+  }
+};
+
+// Each ordered bot gets its own slot around a shared spot so they don't stack
+const formationSlot = (bot: Player, state: GameState, team: Team, centre: Vector2, radius: number): Vector2 => {
+  const squad = state.players.filter(p => isOrderedBot(p, team));
+  const index = squad.indexOf(bot);
+  const angle = (Math.PI * 2 * index) / squad.length;
+  return { x: centre.x + Math.cos(angle) * radius, y: centre.y + Math.sin(angle) * radius };
+};
+
+// Where the standing order sends this bot, or null if it has no order to follow right now
+export const getOrderTarget = (bot: Player, state: GameState): Vector2 | null => {
+  const order = state.squadOrder;
+  if (!order || !isOrderedBot(bot, order.team)) return null;
+
+  if (order.type === 'ATTACK') {
+    return state.controlPoints.find(c => c.id === order.objectiveId)?.pos ?? null;
+  }
+  if (order.type === 'HOLD') {
+    return formationSlot(bot, state, order.team, order.pos!, FORMATION_RADIUS);
+  }
+
+  // FOLLOW and REGROUP both form up on the human; nothing to do while they are down
+  const human = state.players.find(p => !p.isBot && p.active && p.team === order.team);
+  if (!human) return null;
+  const slot = formationSlot(bot, state, order.team, human.pos, FORMATION_RADIUS);
+  return dist(bot.pos, slot) > 30 ? slot : { ...bot.pos };
+};
@@ -0,0 +1,87 @@
+
+import { GameState, Player, Rarity, SupplyDrop, Vector2, WeaponType } from '../types';
+import { dist } from './geometry';
+import { snapLanding } from './deployment';
+import { wantsLoot } from './inventory';
+import { Rng } from './random';
+
+// --- SUPPLY DROPS ---
+// Every so often a crate is announced, falls somewhere inside the circle, and lands as a
+// couple of top-tier weapons and armor plates. It stays marked on the maps until it has been emptied.
+
+export const FIRST_SUPPLY_DROP_MS = 60000;
+const SUPPLY_DROP_INTERVAL_MS = 75000;
+export const SUPPLY_DROP_FALL_MS = 10000;
+const CONTENTS = 2;
+const PLATES = 2;
+const LEGENDARY_CHANCE = 0.3; // Otherwise epic
+const ZONE_SHARE = 0.7; // Keep clear of the circle's edge
+const CONTEST_RANGE = 1500; // Bots further away than this leave it to others
+
+const pick = <T>(items: T[], rng: Rng): T => items[Math.floor(rng() * items.length)];
+
+const announce = (state: GameState, message: string) => {
+  state.killFeed.unshift(message);
+  if (state.killFeed.length > 5) state.killFeed.pop();
+  state.events.push({ type: 'SOUND', key: 'CAPTURE' });
+};
+
+const land = (state: GameState, drop: SupplyDrop, rng: Rng) => {
+  const weapons = Object.values(WeaponType).filter(w => w !== WeaponType.KNIFE);
+  for (let i = 0; i < CONTENTS + PLATES; i++) {
+    const id = `${drop.id}-${i}`;
+    const base = { id, pos: { x: drop.pos.x + (i - (CONTENTS + PLATES - 1) / 2) * 20, y: drop.pos.y }, radius: 10, active: true };
+    state.loot.push(i < CONTENTS
+      ? { ...base, kind: 'WEAPON', weapon: pick(weapons, rng), rarity: rng() < LEGENDARY_CHANCE ? Rarity.LEGENDARY : Rarity.EPIC }
+      : { ...base, kind: 'PLATE' });
+    drop.lootIds.push(id);
+  }
+  announce(state, 'SUPPLY DROP HAS LANDED');
+};
+
+const hasLanded = (drop: SupplyDrop) => drop.lootIds.length > 0;
+
+const isEmptied = (state: GameState, drop: SupplyDrop) =>
+  hasLanded(drop) && !state.loot.some(l => l.active && drop.lootIds.includes(l.id));
+
+// Schedules, drops and lands crates, and forgets the emptied ones. Once the circle has
+// closed for good there is nowhere left to drop.
+export const updateSupplyDrops = (state: GameState, now: number, rng: Rng) => {
+  const zone = state.zone;
+  if (state.nextSupplyDropAt === null || !zone || state.deployment) return;
+
+  if (now >= state.nextSupplyDropAt && zone.state !== 'CLOSED' && zone.radius > 0) {
+    const angle = rng() * Math.PI * 2;
+    const r = Math.sqrt(rng()) * zone.radius * ZONE_SHARE;
+    state.supplyDrops.push({
+      id: `supply-${Math.round(now)}`,
+      pos: snapLanding(state, { x: zone.x + Math.cos(angle) * r, y: zone.y + Math.sin(angle) * r }),
+      landsAt: now + SUPPLY_DROP_FALL_MS,
+      lootIds: []
+    });
+    state.nextSupplyDropAt = now + SUPPLY_DROP_INTERVAL_MS;
+    announce(state, 'SUPPLY DROP INBOUND');
+  }
+
+  state.supplyDrops.forEach(drop => {
+    if (!hasLanded(drop) && now >= drop.landsAt) land(state, drop, rng);
+  });
+  state.supplyDrops = state.supplyDrops.filter(drop => !isEmptied(state, drop));
+};
+
+// The nearest drop worth fighting over for `bot`: one still falling, or one holding something
+// it would take. Null if none is close enough.
+export const getSupplyDropTarget = (bot: Player, state: GameState): Vector2 | null => {
+  let best: Vector2 | null = null;
+  let bestDist = CONTEST_RANGE;
+  for (const drop of state.supplyDrops) {
+    const d = dist(bot.pos, drop.pos);
+    if (d >= bestDist) continue;
+    const worthIt = !hasLanded(drop) || state.loot.some(l => l.active && drop.lootIds.includes(l.id) && wantsLoot(bot, l));
+    if (worthIt) {
+      best = drop.pos;
+      bestDist = d;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,80 @@
+
+import { Zone } from '../types';
+import { ZONE_SCHEDULE, ZONE_START_RADIUS } from '../constants';
+import { Rng } from './random';
+
+// --- BATTLE ROYALE ZONE ---
+// The circle runs through ZONE_SCHEDULE: hold, then shrink onto the next circle, whose
+// centre is rolled somewhere inside the current one so the endgame isn't always mid-map.
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Rolls the circle for `phase` inside the current target and makes it the new target
+const planNextCircle = (zone: Zone, phase: number, mapWidth: number, mapHeight: number, rng: Rng) => {
+  const radius = ZONE_SCHEDULE[phase].endRadius * mapWidth;
+  // Keep the whole new circle inside the old one
+  const slack = Math.max(0, zone.targetRadius - radius);
+  const angle = rng() * Math.PI * 2;
+  const offset = Math.sqrt(rng()) * slack; // sqrt spreads picks evenly over the disc
+  // ...and the centre on the map, far enough in that the circle isn't mostly off the edge
+  const insetX = Math.min(radius, mapWidth / 2);
+  const insetY = Math.min(radius, mapHeight / 2);
+  zone.targetX = clamp(zone.targetX + Math.cos(angle) * offset, insetX, mapWidth - insetX);
+  zone.targetY = clamp(zone.targetY + Math.sin(angle) * offset, insetY, mapHeight - insetY);
+  zone.targetRadius = radius;
+};
+
+export const createZone = (mapWidth: number, mapHeight: number, rng: Rng): Zone => {
+  const zone: Zone = {
+    x: mapWidth / 2,
+    y: mapHeight / 2,
+    radius: mapWidth * ZONE_START_RADIUS,
+    targetX: mapWidth / 2,
+    targetY: mapHeight / 2,
+    targetRadius: mapWidth * ZONE_START_RADIUS,
+    startX: mapWidth / 2,
+    startY: mapHeight / 2,
+    startRadius: mapWidth * ZONE_START_RADIUS,
+    phase: 0,
+    phaseTimer: ZONE_SCHEDULE[0].waitMs,
+    state: 'WAITING',
+    damagePerTick: ZONE_SCHEDULE[0].damagePerTick
+  };
+  planNextCircle(zone, 0, mapWidth, mapHeight, rng);
+  return zone;
+};
+
+export const updateZone = (zone: Zone, dt: number, mapWidth: number, mapHeight: number, rng: Rng) => {
+  if (zone.state === 'CLOSED') return;
+  const phase = ZONE_SCHEDULE[zone.phase];
+  zone.phaseTimer -= dt;
+
+  if (zone.state === 'WAITING') {
+    if (zone.phaseTimer <= 0) {
+      zone.state = 'SHRINKING';
+      zone.phaseTimer = phase.shrinkMs;
+      zone.startX = zone.x;
+      zone.startY = zone.y;
+      zone.startRadius = zone.radius;
+    }
+    return;
+  }
+
+  // Slide the centre and pull the edge in together
+  const t = Math.min(1, 1 - zone.phaseTimer / phase.shrinkMs);
+  zone.x = zone.startX + (zone.targetX - zone.startX) * t;
+  zone.y = zone.startY + (zone.targetY - zone.startY) * t;
+  zone.radius = zone.startRadius + (zone.targetRadius - zone.startRadius) * t;
+  if (zone.phaseTimer > 0) return;
+
+  zone.phase++;
+  if (zone.phase >= ZONE_SCHEDULE.length) {
+    zone.state = 'CLOSED';
+    return;
+  }
+  const next = ZONE_SCHEDULE[zone.phase];
+  zone.state = 'WAITING';
+  zone.phaseTimer = next.waitMs;
+  zone.damagePerTick = next.damagePerTick;
+  planNextCircle(zone, zone.phase, mapWidth, mapHeight, rng);
+};
@@ -29,6 +29,15 @@ export enum WeaponType {
   SNIPER = 'SNIPER'
 }
 
+// Battle Royale weapon quality, lowest first
+export enum Rarity {
+  COMMON = 'COMMON',
+  UNCOMMON = 'UNCOMMON',
+  RARE = 'RARE',
+  EPIC = 'EPIC',
+  LEGENDARY = 'LEGENDARY'
+}
+
 export enum Difficulty {
   RECRUIT = 'RECRUIT',
   VETERAN = 'VETERAN',
@@ -76,6 +85,9 @@ export interface GameSettings {
   botCount: number; // Generic count for FFA/BR
   orientation: Orientation;
   fireMode: FireMode;
+  adaptiveDifficulty?: boolean; // Bot skill drifts with how the human is doing
+  waveRespawns?: boolean; // Objective modes bring the dead back together
+  respawnDelays?: Partial<Record<GameMode, number>>; // ms spent dead, per mode; missing modes use the defaults
 }
 
 export interface WeaponStats {
@@ -85,12 +97,25 @@ export interface WeaponStats {
   range: number;
   accuracy: number; // spread angle in radians
   magSize: number;
+  maxReserve: number; // Spare rounds carried on top of the magazine
   reloadTime: number;
+  noise: number; // How far away a shot can be heard
   color: string;
   description: string;
   className: string;
 }
 
+// How a rarity tier scales the base WeaponStats
+export interface RarityTier {
+  name: string;
+  color: string;
+  damageMult: number;
+  accuracyMult: number; // Scales spread, so lower is tighter
+  magMult: number;
+  reloadMult: number;
+  weight: number; // Relative odds of rolling this tier as loot
+}
+
 export interface Operator {
   id: string;
   name: string;
@@ -99,6 +124,7 @@ export interface Operator {
   bonus: string; // e.g., "Speed +", "Health +"
   speedMult: number;
   healthMult: number;
+  noiseMult?: number; // Scales every sound the operator makes (shots, footsteps); 1 if unset
 }
 
 export interface GameSetup {
@@ -106,6 +132,8 @@ export interface GameSetup {
   weapon: WeaponType;
   operatorId: string;
   mapId: MapId;
+  seed: number; // Drives every random roll in the match (map layout, spawns, spread, AI)
+  botsOnly?: boolean; // Headless runs: the human slot is filled by another bot
 }
 
 export interface MatchRecord {
@@ -120,6 +148,24 @@ export interface MatchRecord {
     playerDeaths: number;
     playerOperator: string;
     difficulty: Difficulty;
+    seed?: number; // Missing on records saved before seeded matches
+    difficultyLog?: DifficultyAdjustment[]; // Only for adaptive difficulty matches
+    placement?: number; // Battle Royale only
+}
+
+// [tick, held keys, mouseX, mouseY, mouseDown (0/1), viewW, viewH, squad command issued on this tick, landing spot picked on this tick]
+// Only stored on ticks where something changed; the previous frame holds until the next one.
+export type ReplayFrame = [number, string[], number, number, number, number, number, (SquadCommand | null)?, Vector2?];
+
+export interface ReplayRecording {
+    id: string;
+    timestamp: number;
+    setup: GameSetup; // Includes the seed, so the match regenerates identically
+    settings: GameSettings;
+    tickMs: number;
+    tickCount: number;
+    frames: ReplayFrame[];
+    winner?: Team;
 }
 
 export interface Vector2 {
@@ -127,6 +173,33 @@ export interface Vector2 {
   y: number;
 }
 
+// Raw human input for one tick. Mouse is in screen space; the engine maps it through the camera.
+export interface PlayerInput {
+  keys: Record<string, boolean>;
+  mouse: Vector2;
+  mouseDown: boolean;
+  command?: SquadCommand | null; // Only set on the tick the order was given
+  landing?: Vector2 | null; // Battle Royale deployment: only set on the tick a landing spot was picked
+}
+
+export type SquadOrderType = 'FOLLOW' | 'HOLD' | 'ATTACK' | 'REGROUP';
+
+// An order from the command wheel or tactical map. HOLD without a position means "where I am".
+export interface SquadCommand {
+  type: SquadOrderType | 'CANCEL';
+  objectiveId?: string;
+  pos?: Vector2;
+}
+
+// The human's standing order to their ally bots
+export interface SquadOrder {
+  type: SquadOrderType;
+  team: Team;
+  objectiveId: string | null; // ATTACK
+  pos: Vector2 | null; // HOLD
+  issuedAt: number;
+}
+
 export interface Entity {
   id: string;
   pos: Vector2;
@@ -134,36 +207,208 @@ export interface Entity {
   active: boolean;
 }
 
-export interface LootItem extends Entity {
+export interface WeaponLoot extends Entity {
+    kind: 'WEAPON';
     weapon: WeaponType;
+    rarity: Rarity;
+    ammo?: number; // Rounds left in a dropped weapon's magazine; fresh loot comes full
+}
+
+// Picked up by walking over it, while there is room to carry it
+export interface ConsumableLoot extends Entity {
+    kind: ConsumableType;
+}
+
+// Spare rounds a fallen player leaves behind, for whoever carries the same guns
+export interface AmmoLoot extends Entity {
+    kind: 'AMMO';
+    rounds: Partial<Record<WeaponType, number>>;
+    expiresAt?: number; // ms; respawn modes clear old boxes away
+}
+
+export type LootItem = WeaponLoot | ConsumableLoot | AmmoLoot;
+
+// Battle Royale healing items, used from the inventory
+export type ConsumableType = 'MEDKIT' | 'PLATE';
+
+export interface ConsumableStats {
+    name: string;
+    useMs: number; // Time spent using it, slowed and unable to fire
+    amount: number; // Health restored (medkit) or armor added (plate)
+    maxCarried: number;
+    color: string;
+}
+
+// An item being used; finishing it applies the effect
+export interface ItemUse {
+    item: ConsumableType;
+    doneAt: number; // ms
+}
+
+// Handed out by pickup pads in TDM, FFA and Domination
+export type PickupType = 'AMMO' | 'HEALTH' | 'ARMOR' | 'DAMAGE_BOOST' | 'SPEED_BOOST';
+export type BoostType = Extract<PickupType, 'DAMAGE_BOOST' | 'SPEED_BOOST'>;
+
+export interface PickupStats {
+    name: string;
+    label: string; // Short tag drawn on the pad
+    color: string;
+    respawnMs: number; // Time a pad stays empty after being taken
+    amount: number; // Health or armor given, or the boost multiplier; unused for ammo
+    durationMs?: number; // Boosts only
+}
+
+// A fixed spot on the map that hands out a pickup. Inactive while it restocks.
+export interface PickupPad extends Entity {
+    type: PickupType;
+    respawnAt: number; // ms; when an emptied pad is stocked again
+}
+
+// A weapon carried in a Battle Royale slot
+export interface InventorySlot {
+    weapon: WeaponType;
+    rarity: Rarity;
+    ammo: number; // Only kept up to date while the slot is stowed; the player's own ammo is live
+}
+
+// Battle Royale: two weapon slots and the knife, which is always carried
+export interface Inventory {
+    slots: (InventorySlot | null)[];
+    active: number | null; // Slot in hand, or null with the knife out
+    consumables: Record<ConsumableType, number>;
+    lastActionAt: number; // ms; swaps and pickups run on a short cooldown
+    pressed: boolean; // Interact or cycle was down last tick, so holding it acts only once
+}
+
+// Battle Royale: the drop plane's pass over the map before anyone is on the ground
+export interface Deployment {
+    from: Vector2; // Flight path, edge to edge
+    to: Vector2;
+    flightMs: number;
+}
+
+// A player's way down from the plane
+export interface PlayerDrop {
+    landing: Vector2 | null; // null until the human picks a spot
+    jumpAt: number; // ms; rides the plane until then
+    jumpPos: Vector2;
+}
+
+// Battle Royale airdrop: announced, falls for a while, then lands as high-tier loot
+export interface SupplyDrop {
+    id: string;
+    pos: Vector2;
+    landsAt: number; // ms
+    lootIds: string[]; // Filled in on landing
+}
+
+// One step of the Battle Royale circle closing
+export interface ZonePhase {
+    waitMs: number; // Holding still before the shrink starts
+    shrinkMs: number;
+    endRadius: number; // Share of the map width
+    damagePerTick: number; // Outside the circle during this phase
 }
 
 export interface Zone {
     x: number;
     y: number;
     radius: number;
+    targetX: number; // The next circle, shown on the maps ahead of time
+    targetY: number;
     targetRadius: number;
-    shrinkTimer: number;
-    state: 'WAITING' | 'SHRINKING';
+    startX: number; // Where the current shrink began
+    startY: number;
+    startRadius: number;
+    phase: number; // Index into ZONE_SCHEDULE
+    phaseTimer: number; // ms left to wait or shrink
+    state: 'WAITING' | 'SHRINKING' | 'CLOSED';
     damagePerTick: number;
 }
 
+// What kind of fight a bot likes, which decides the weapon it brings
+export type BotPersonality = 'RUSHER' | 'MARKSMAN' | 'SUPPORT' | 'RIFLEMAN';
+
+// How well a bot shoots. Rolled per bot around its difficulty's profile.
+export interface BotSkill {
+  reactionMs: number; // From spotting a target to the first shot
+  settleMs: number; // How long the first rough aim takes to settle out
+  initialError: number; // Radians off when first laying eyes on a target
+  trackingError: number; // Radians of wobble that stays while tracking
+  leadSkill: number; // 0..1 share of the ideal lead on a moving target
+  spreadMult: number; // Scales weapon spread
+}
+
+// A bot's aim on its current target
+export interface BotAim {
+  targetId: string;
+  acquiredAt: number;
+  lastSeen: number;
+  offset: number; // Initial aim error in radians, shrinks to 0 over settleMs
+  phase: number; // Wobble phase so bots don't sway in sync
+}
+
+export type SquadRole = 'ATTACK' | 'DEFEND' | 'FLANK' | 'ESCORT';
+
+// What the team planner has asked a bot to do
+export interface SquadAssignment {
+  role: SquadRole;
+  objectiveId: string | null; // Control point the role is about
+  point: Vector2 | null; // Where to hold (DEFEND) or swing through (FLANK)
+}
+
+// A bot's chosen cover against one threat, alternating between hiding and peeking
+export interface BotCover {
+  obstacle: Obstacle;
+  spot: Vector2; // Behind the obstacle, out of the threat's sight
+  peek: Vector2; // Beside it, with a line to the threat
+  threatId: string;
+  peeking: boolean;
+  phaseEndsAt: number; // ms; when the current hide or peek ends
+  reviewAt: number; // ms; when to check the cover still faces the threat
+}
+
 export interface Player extends Entity {
   team: Team;
   angle: number;
   health: number;
   maxHealth: number;
+  armor: number; // Soaks up damage before health does, up to MAX_ARMOR
+  lastDamagedAt?: number; // ms; regeneration waits a while after this
+  using?: ItemUse | null; // Battle Royale: mid-way through a medkit or plate
+  boosts?: Partial<Record<BoostType, number>>; // Power-ups in effect, by when they wear off (ms)
   speed: number;
   weapon: WeaponType;
-  ammo: number;
+  ammo: number; // In the magazine of the weapon in hand
+  reserve: Partial<Record<WeaponType, number>>; // Spare rounds by weapon; reloads draw from here
   isReloading: boolean;
   reloadTimer: number;
   lastShotTime: number;
   kills: number;
   deaths: number;
   isBot: boolean;
+  operatorId: string;
+  callsign?: string; // Bots only; the human shows as YOU
+  spawnProtectedUntil?: number; // Takes no damage until this time, or until it fires
+  placement?: number; // Battle Royale: finishing position, set when eliminated
+  inventory?: Inventory; // Battle Royale slots, or primary and sidearm in the other modes bar Gun Game
+  drop?: PlayerDrop | null; // Battle Royale: on the plane or coming down; cleared on landing
+  rarity?: Rarity; // Of the weapon in hand; missing means COMMON
+  rank?: string; // Bots only
+  velocity?: Vector2; // px per ms over the last tick
   target?: Vector2 | null; // For AI
-  state?: 'PATROL' | 'ATTACK' | 'CAPTURE' | 'RETREAT' | 'LOOT' | 'ZONE_MOVE'; // For AI
+  path?: Vector2[] | null; // Waypoints toward target, for AI
+  pathGoal?: Vector2 | null; // Target the current path was planned for
+  stuckTime?: number; // ms spent pushing against something while trying to move
+  state?: 'PATROL' | 'ATTACK' | 'CAPTURE' | 'RETREAT' | 'LOOT' | 'ZONE_MOVE' | 'COVER' | 'INVESTIGATE' | 'ORDER' | 'SUPPLY' | 'PICKUP'; // For AI
+  cover?: BotCover | null; // For AI
+  lastRetreatTime?: number; // For AI
+  lastKnownEnemyPos?: Vector2 | null; // Where an enemy was last seen or heard, for AI
+  investigateUntil?: number; // For AI
+  squad?: SquadAssignment | null; // Set by the team planner, for AI
+  lastHelpCallTime?: number; // For AI
+  skill?: BotSkill; // For AI
+  aim?: BotAim | null; // For AI
 }
 
 export interface Bullet extends Entity {
@@ -171,6 +416,7 @@ export interface Bullet extends Entity {
   damage: number;
   team: Team;
   ownerId: string; // Added to track who shot the bullet
+  weapon: WeaponType;
   distanceTraveled: number;
   maxDistance: number;
   color: string;
@@ -200,6 +446,46 @@ export interface ControlPoint extends Entity {
   name: string;
 }
 
+// A sound bots can hear: gunfire, sprinting footsteps. Kept briefly so every bot gets a tick to react.
+export interface Noise {
+  sourceId: string;
+  team: Team;
+  pos: Vector2;
+  radius: number; // Audible out to this distance, halved through walls
+  time: number;
+}
+
+// A fallen player waiting to come back
+export interface RespawnTicket {
+  playerId: string;
+  respawnAt: number; // Match clock in ms
+  wave: boolean; // Held for the next wave rather than the plain delay
+}
+
+// One step of adaptive difficulty, with the numbers that caused it
+export interface DifficultyAdjustment {
+  time: number; // Match clock in ms
+  level: number; // Bot skill after the step: -1 recruit, 0 veteran, 1 elite
+  kd: number;
+  accuracy: number; // 0..1 over the window since the previous step
+  scoreDelta: number;
+}
+
+export interface AdaptiveDifficulty {
+  level: number;
+  shots: number; // Human rounds fired and landed, whole match
+  hits: number;
+  lastCheck: { kills: number; deaths: number; shots: number; hits: number };
+  log: DifficultyAdjustment[];
+}
+
+// Things that happened during a tick, for whoever drives the engine (audio, stats).
+// Cleared at the start of every updateGame call.
+export type GameEvent =
+  | { type: 'SOUND'; key: string }
+  | { type: 'KILL'; killerId: string | null; victimId: string; weapon: WeaponType | null; victimWeapon: WeaponType }
+  | { type: 'DAMAGE'; attackerId: string | null; victimId: string; weapon: WeaponType | null; amount: number; distance: number };
+
 export interface GameState {
   mode: GameMode;
   difficulty: Difficulty;
@@ -211,12 +497,25 @@ export interface GameState {
   buildings: Building[];
   controlPoints: ControlPoint[];
   loot: LootItem[];
+  pickups: PickupPad[]; // Timed pads; empty in modes without them
   zone?: Zone;
+  deployment?: Deployment | null; // Battle Royale: cleared once everyone has landed
+  supplyDrops: SupplyDrop[]; // Battle Royale: incoming, or landed with loot left
+  nextSupplyDropAt: number | null; // ms; null outside Battle Royale
   camera: Vector2;
   scores: { [key in Team]: number };
   timeRemaining: number;
   killFeed: string[];
-  hardpointTimer?: number; // Added for Hardpoint logic
+  hardpointTimer?: number; // ms until the active hardpoint rotates
   mapWidth: number;
   mapHeight: number;
+  time: number; // Simulation clock in ms since match start
+  rngState: number; // Seeded RNG state, advanced by every random roll in the engine
+  events: GameEvent[];
+  noises: Noise[];
+  squadOrder: SquadOrder | null;
+  adaptive?: AdaptiveDifficulty; // Present when adaptive difficulty is on
+  respawnQueue: RespawnTicket[];
+  spawnsFlipped: boolean; // Teams spawn from each other's edge
+  spawnFlipTime: number | null;
 }